@@ -0,0 +1,102 @@
+/**
+ * `hey-ai cache` - inspect and manage the command documentation cache
+ */
+
+import chalk from 'chalk';
+import type { Command } from 'commander';
+import { ConfigManager } from '../config.js';
+import { CommandDetector } from '../context/commands.js';
+import { CommandDocsCache } from '../context/docs-cache.js';
+import { loadCommandDocs } from '../context/docs.js';
+import { formatBytes } from '../utils/format.js';
+
+async function openCache(): Promise<CommandDocsCache> {
+  const config = await new ConfigManager().loadConfig();
+  return new CommandDocsCache(undefined, config.docsCache);
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+export function registerCacheCommand(program: Command) {
+  const cacheCmd = program
+    .command('cache')
+    .description('Manage the cache of man pages, tldr pages and --help output');
+
+  cacheCmd
+    .command('list')
+    .description('List cached command docs, most recently used first')
+    .option('--json', 'Output as JSON')
+    .action(async (options: any) => {
+      const entries = await (await openCache()).list();
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log(chalk.yellow('The docs cache is empty.'));
+        return;
+      }
+
+      for (const entry of entries) {
+        const stale = entry.stale ? chalk.yellow(' (stale)') : '';
+        console.log(`${chalk.cyan(entry.command.padEnd(24))} ${entry.source.padEnd(5)} ${formatBytes(entry.size).padStart(9)}  ${chalk.gray(`cached ${formatAge(entry.cachedAt)}`)}${stale}`);
+        if (entry.binary) {
+          console.log(chalk.gray(`  ${entry.binary}`));
+        }
+      }
+    });
+
+  cacheCmd
+    .command('stats')
+    .description('Show cache size and entry counts')
+    .action(async () => {
+      const stats = await (await openCache()).stats();
+
+      console.log(chalk.bold('Docs cache:\n'));
+      console.log(`  Entries: ${stats.entries} (man ${stats.bySource.man}, tldr ${stats.bySource.tldr}, --help ${stats.bySource.help})`);
+      console.log(`  Stale: ${stats.stale}`);
+      console.log(`  Size: ${formatBytes(stats.totalBytes)} of ${formatBytes(stats.maxBytes)}`);
+      console.log(`  Expiry: ${stats.ttlDays} days`);
+    });
+
+  cacheCmd
+    .command('clear')
+    .description('Delete cached docs for some commands, or everything')
+    .argument('[commands...]', 'Commands to forget (e.g. fd "git rebase")')
+    .action(async (commands: string[]) => {
+      const removed = await (await openCache()).clear(commands.length > 0 ? commands : undefined);
+      console.log(chalk.green(`✓ Removed ${removed} cached entr${removed === 1 ? 'y' : 'ies'}`));
+    });
+
+  cacheCmd
+    .command('prewarm')
+    .description('Fetch docs for commands ahead of time (default: the modern tools detected on this machine)')
+    .argument('[commands...]', 'Commands to fetch docs for')
+    .action(async (commands: string[]) => {
+      const cache = await openCache();
+      const targets = commands.length > 0 ? commands : new CommandDetector().getAvailableAlternatives();
+
+      if (targets.length === 0) {
+        console.log(chalk.yellow('No commands to prewarm.'));
+        return;
+      }
+
+      let fetched = 0;
+      for (const command of targets) {
+        const docs = await loadCommandDocs(command, cache);
+        if (docs) {
+          fetched++;
+          console.log(`${chalk.green('✓')} ${command} ${chalk.gray(`(${docs.source})`)}`);
+        } else {
+          console.log(`${chalk.yellow('–')} ${command} ${chalk.gray('(no documentation found)')}`);
+        }
+      }
+      console.log(chalk.green(`\n✓ Docs cached for ${fetched} of ${targets.length} commands`));
+    });
+}
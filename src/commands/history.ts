@@ -0,0 +1,354 @@
+/**
+ * `hey-ai history` - browse and manage session history stored in session.db
+ */
+
+import path from 'node:path';
+import os from 'node:os';
+import fs from 'node:fs/promises';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { z } from 'zod';
+import type { Command } from 'commander';
+import {
+  SessionHistory,
+  type HistoryFilter,
+  type PortableEntry,
+  type SessionEntry,
+  type SearchResult,
+} from '../context/session.js';
+import { parseDateOption } from '../utils/dates.js';
+
+/**
+ * Build a history filter from the shared command options
+ */
+export function buildHistoryFilter(options: any): HistoryFilter {
+  return {
+    cwd: options.cwd === true ? process.cwd() : options.cwd ? path.resolve(options.cwd) : undefined,
+    since: options.since ? parseDateOption(options.since) : undefined,
+    until: options.until ? parseDateOption(options.until, { endOfDay: true }) : undefined,
+    model: options.model,
+  };
+}
+
+/**
+ * Add the filter options shared by history subcommands
+ */
+export function addHistoryFilterOptions(command: Command): Command {
+  return command
+    .option('--cwd [dir]', 'Only entries from a directory (default: current directory)')
+    .option('--since <date>', 'Only entries after a date (e.g. 2024-05-01, 7d, 12h)')
+    .option('--until <date>', 'Only entries up to a date (a day counts in full)')
+    .option('--model <model>', 'Only entries answered by a model (substring match)');
+}
+
+const PortableEntrySchema = z.object({
+  prompt: z.string(),
+  response: z.string(),
+  timestamp: z.number().int().nonnegative(),
+  cwd: z.string().nullish(),
+  model: z.string().nullish(),
+  exit_code: z.number().int().nullish(),
+  conversation_id: z.string().nullish(),
+  validation: z.string().nullish(),
+});
+
+/**
+ * Strip local ids so an entry can be imported into another database
+ */
+function toPortableEntry({ id: _id, ...entry }: SessionEntry): PortableEntry {
+  return entry;
+}
+
+/**
+ * Serialise entries as JSONL, one entry per line
+ */
+export function formatHistoryJsonl(entries: SessionEntry[]): string {
+  return entries.map(entry => JSON.stringify(toPortableEntry(entry)) + '\n').join('');
+}
+
+/**
+ * Render entries as a Markdown document for sharing
+ */
+export function formatHistoryMarkdown(entries: SessionEntry[]): string {
+  const sections = entries.map(entry => {
+    const title = entry.prompt.split('\n')[0];
+    const meta = [
+      `- **Date:** ${new Date(entry.timestamp).toISOString()}`,
+      entry.cwd ? `- **Directory:** \`${entry.cwd}\`` : null,
+      entry.model ? `- **Model:** ${entry.model}` : null,
+      entry.exit_code !== null && entry.exit_code !== undefined ? `- **Exit code:** ${entry.exit_code}` : null,
+      entry.validation ? `- **Syntax check:** ${entry.validation}` : null,
+    ].filter(Boolean).join('\n');
+
+    return `## ${title}\n\n${meta}\n\n### Prompt\n\n${entry.prompt}\n\n### Response\n\n${entry.response.trim()}\n`;
+  });
+
+  return ['# hey-ai history\n', ...sections].join('\n');
+}
+
+/**
+ * Parse a JSONL export, reporting the line number of the first invalid entry
+ */
+export function parseHistoryJsonl(content: string): PortableEntry[] {
+  const entries: PortableEntry[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+
+    const result = PortableEntrySchema.safeParse(data);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Invalid entry on line ${i + 1}: ${issue.path.join('.') || 'entry'} ${issue.message}`);
+    }
+    entries.push({
+      prompt: result.data.prompt,
+      response: result.data.response,
+      timestamp: result.data.timestamp,
+      cwd: result.data.cwd ?? '',
+      model: result.data.model ?? null,
+      exit_code: result.data.exit_code ?? null,
+      conversation_id: result.data.conversation_id ?? null,
+      validation: result.data.validation ?? null,
+    });
+  }
+
+  return entries;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function shortenPath(dir: string | null | undefined): string {
+  if (!dir) return '';
+  const home = os.homedir();
+  return dir === home || dir.startsWith(home + path.sep) ? `~${dir.slice(home.length)}` : dir;
+}
+
+function printEntrySummary(entry: SessionEntry, score?: number) {
+  const firstLine = entry.prompt.split('\n')[0];
+  const prompt = firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+  const meta = [formatDate(entry.timestamp), entry.model, shortenPath(entry.cwd)].filter(Boolean).join('  ');
+  const scoreInfo = score !== undefined ? chalk.gray(` (${(score * 100).toFixed(0)}%)`) : '';
+
+  console.log(`  ${chalk.cyan(`#${entry.id}`)}  ${chalk.gray(meta)}${scoreInfo}`);
+  console.log(`      ${prompt}`);
+}
+
+/**
+ * Run a subcommand action, turning thrown errors (e.g. invalid dates) into CLI errors
+ */
+function withErrors<T extends unknown[]>(action: (...args: T) => Promise<void> | void) {
+  return async (...args: T) => {
+    try {
+      await action(...args);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  };
+}
+
+function parseEntryId(value: string): number {
+  const id = parseInt(value.replace(/^#/, ''), 10);
+  if (!(id > 0)) {
+    throw new Error(`Invalid entry id "${value}"`);
+  }
+  return id;
+}
+
+export function registerHistoryCommand(program: Command) {
+  const historyCmd = program
+    .command('history')
+    .description('Browse and manage session history');
+
+  addHistoryFilterOptions(historyCmd.command('list'))
+    .description('List recent session entries')
+    .option('-n, --limit <n>', 'Maximum number of entries', '20')
+    .option('--json', 'Output JSON')
+    .action(withErrors((options: any) => {
+      const session = new SessionHistory();
+      const entries = session.getRecentEntries(parseInt(options.limit, 10) || 20, buildHistoryFilter(options));
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.gray('No history entries found.'));
+        return;
+      }
+
+      console.log(chalk.bold('Session history:\n'));
+      for (const entry of entries) {
+        printEntrySummary(entry);
+      }
+      console.log(chalk.gray('\nShow an entry with: hey-ai history show <id>'));
+    }));
+
+  addHistoryFilterOptions(historyCmd.command('search <query>'))
+    .description('Search session history')
+    .option('--mode <mode>', 'Search mode: fts, semantic or hybrid', 'hybrid')
+    .option('-n, --limit <n>', 'Maximum number of results', '10')
+    .option('--json', 'Output JSON')
+    .action(withErrors(async (query: string, options: any) => {
+      const session = new SessionHistory();
+      const limit = parseInt(options.limit, 10) || 10;
+      const filter = buildHistoryFilter(options);
+
+      let results: SearchResult[];
+      switch (options.mode) {
+        case 'fts':
+          results = session.searchFTS(query, limit, filter);
+          break;
+        case 'semantic':
+          results = await session.searchSemantic(query, limit, filter);
+          break;
+        case 'hybrid':
+          results = await session.searchHybrid(query, limit, filter);
+          break;
+        default:
+          throw new Error(`Unknown search mode "${options.mode}" (use fts, semantic or hybrid)`);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.gray('No matching entries found.'));
+        return;
+      }
+
+      console.log(chalk.bold(`Found ${results.length} matching entr${results.length === 1 ? 'y' : 'ies'}:\n`));
+      for (const result of results) {
+        // Only hybrid scores are normalised to 0-1
+        printEntrySummary(result, result.source === 'hybrid' ? result.score : undefined);
+      }
+    }));
+
+  historyCmd
+    .command('show <id>')
+    .description('Show a session entry')
+    .option('--json', 'Output JSON')
+    .action(withErrors((idArg: string, options: any) => {
+      const session = new SessionHistory();
+      const entry = session.getEntry(parseEntryId(idArg));
+      if (!entry) {
+        throw new Error(`History entry "${idArg}" not found`);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(entry, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`Entry #${entry.id}\n`));
+      console.log(`  Date: ${formatDate(entry.timestamp)}`);
+      console.log(`  Directory: ${entry.cwd || '(unknown)'}`);
+      if (entry.model) {
+        console.log(`  Model: ${entry.model}`);
+      }
+      if (entry.exit_code !== null && entry.exit_code !== undefined) {
+        console.log(`  Exit code: ${entry.exit_code}`);
+      }
+      if (entry.validation) {
+        console.log(`  Syntax check: ${entry.validation}`);
+      }
+      if (entry.conversation_id) {
+        console.log(`  Conversation: ${entry.conversation_id}`);
+      }
+      console.log(chalk.bold('\nPrompt:'));
+      console.log(entry.prompt);
+      console.log(chalk.bold('\nResponse:'));
+      console.log(entry.response);
+    }));
+
+  historyCmd
+    .command('delete <id>')
+    .description('Delete a session entry')
+    .action(withErrors((idArg: string) => {
+      const session = new SessionHistory();
+      if (!session.deleteEntry(parseEntryId(idArg))) {
+        throw new Error(`History entry "${idArg}" not found`);
+      }
+      console.log(chalk.green(`✓ Deleted history entry #${parseEntryId(idArg)}`));
+    }));
+
+  addHistoryFilterOptions(historyCmd.command('export'))
+    .description('Export session entries as JSONL or Markdown')
+    .option('-f, --format <format>', 'Output format: jsonl or md', 'jsonl')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .action(withErrors(async (options: any) => {
+      const session = new SessionHistory();
+      const entries = session.getAllEntries(buildHistoryFilter(options));
+
+      let output: string;
+      switch (options.format) {
+        case 'jsonl':
+          output = formatHistoryJsonl(entries);
+          break;
+        case 'md':
+        case 'markdown':
+          output = formatHistoryMarkdown(entries);
+          break;
+        default:
+          throw new Error(`Unknown export format "${options.format}" (use jsonl or md)`);
+      }
+
+      if (!options.output) {
+        process.stdout.write(output);
+        return;
+      }
+
+      await fs.writeFile(options.output, output);
+      console.error(chalk.green(`✓ Exported ${entries.length} history entr${entries.length === 1 ? 'y' : 'ies'} to ${options.output}`));
+    }));
+
+  historyCmd
+    .command('import <file>')
+    .description('Import session entries from a JSONL export')
+    .action(withErrors(async (file: string) => {
+      const entries = parseHistoryJsonl(await fs.readFile(file, 'utf-8'));
+
+      const session = new SessionHistory();
+      const { imported, skipped } = await session.importEntries(entries);
+      console.log(chalk.green(`✓ Imported ${imported} history entr${imported === 1 ? 'y' : 'ies'}`) +
+        (skipped > 0 ? chalk.gray(` (${skipped} already present)`) : ''));
+    }));
+
+  addHistoryFilterOptions(historyCmd.command('clear'))
+    .description('Delete session entries (all, or only those matching the filters)')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(withErrors(async (options: any) => {
+      const filter = buildHistoryFilter(options);
+      const hasFilter = Object.values(filter).some(v => v !== undefined);
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Error('Refusing to clear history without confirmation (use --yes)');
+        }
+        const { confirmed } = await inquirer.prompt([{
+          type: 'confirm',
+          name: 'confirmed',
+          message: hasFilter ? 'Delete all matching history entries?' : 'Delete ALL history entries?',
+          default: false
+        }]);
+        if (!confirmed) return;
+      }
+
+      const session = new SessionHistory();
+      const deleted = session.clearEntries(filter);
+      console.log(chalk.green(`✓ Deleted ${deleted} history entr${deleted === 1 ? 'y' : 'ies'}`));
+    }));
+}
@@ -0,0 +1,53 @@
+/**
+ * `hey-ai index` - build and inspect the semantic index of the current project
+ */
+
+import chalk from 'chalk';
+import type { Command } from 'commander';
+import { ConfigManager } from '../config.js';
+import { GitContext } from '../context/git.js';
+import { SecretRedactor } from '../context/redactor.js';
+import { ProjectIndex } from '../rag/project-index.js';
+
+export function registerIndexCommand(program: Command) {
+  program
+    .command('index')
+    .description('Build or update the semantic index of this project (git root or current directory)')
+    .option('--status', 'Show what is indexed without updating')
+    .option('--rebuild', 'Re-index every file from scratch')
+    .action(async (options: any) => {
+      let index: ProjectIndex | undefined;
+      try {
+        const root = (await new GitContext().getRoot()) || process.cwd();
+        const config = await new ConfigManager().loadConfig();
+        index = new ProjectIndex(root, undefined, new SecretRedactor(config.redaction));
+
+        if (options.status) {
+          const status = index.getStatus();
+          console.log(chalk.bold(`Project index for ${status.root}\n`));
+          console.log(`  Files: ${status.files}`);
+          console.log(`  Chunks: ${status.chunks}`);
+          console.log(`  Last indexed: ${status.indexedAt ? new Date(status.indexedAt).toLocaleString() : 'never'}`);
+          console.log(`  Database: ${status.dbPath}`);
+          return;
+        }
+
+        console.log(chalk.gray(`${options.rebuild ? 'Rebuilding' : 'Updating'} index for ${root}...`));
+        const stats = await index.update({
+          rebuild: options.rebuild,
+          onProgress: (done, total) => {
+            if (process.stderr.isTTY) process.stderr.write(`\r  ${done}/${total} files`);
+          }
+        });
+        if (process.stderr.isTTY) process.stderr.write('\r\x1b[K');
+
+        console.log(chalk.green(`✓ Indexed ${stats.indexed} file${stats.indexed === 1 ? '' : 's'} (${stats.chunks} chunks)`) +
+          chalk.gray(`, ${stats.unchanged} unchanged, ${stats.removed} removed, ${stats.skipped} skipped`));
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      } finally {
+        index?.close();
+      }
+    });
+}
@@ -0,0 +1,56 @@
+/**
+ * `hey-ai recall` - find past shell commands by description
+ */
+
+import chalk from 'chalk';
+import type { Command } from 'commander';
+import { ConfigManager } from '../config.js';
+import { createHistoryProvider } from '../context/history.js';
+import { updateShellHistoryIndex } from '../context/history-index.js';
+import { SecretRedactor } from '../context/redactor.js';
+import { SessionHistory } from '../context/session.js';
+
+export function registerRecallCommand(program: Command) {
+  program
+    .command('recall <description...>')
+    .description('Find past shell commands by description (e.g. "convert video to gif")')
+    .option('-n, --limit <n>', 'Maximum number of commands', '10')
+    .option('--json', 'Output JSON')
+    .action(async (words: string[], options: any) => {
+      try {
+        const config = await new ConfigManager().loadConfig();
+        const history = createHistoryProvider(config.shellHistory);
+        const session = new SessionHistory();
+
+        const { added } = await updateShellHistoryIndex(session, history, new SecretRedactor(config.redaction));
+        if (added > 0 && !options.json) {
+          console.log(chalk.gray(`Indexed ${added} new command${added === 1 ? '' : 's'} from ${history.shell} history\n`));
+        }
+
+        const query = words.join(' ');
+        const results = await session.searchShellHistory(query, parseInt(options.limit, 10) || 10, history.shell);
+
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+          return;
+        }
+
+        if (results.length === 0) {
+          console.log(chalk.gray('No matching commands found.'));
+          return;
+        }
+
+        for (const result of results) {
+          const meta = [
+            result.timestamp ? new Date(result.timestamp * 1000).toLocaleString() : null,
+            result.count > 1 ? `${result.count}×` : null,
+            `${(result.score * 100).toFixed(0)}%`,
+          ].filter(Boolean).join('  ');
+          console.log(`  ${chalk.cyan(result.command)}  ${chalk.gray(meta)}`);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      }
+    });
+}
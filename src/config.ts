@@ -3,61 +3,293 @@ import path from 'node:path';
 import os from 'node:os';
 import { z } from 'zod';
 
+const McpServerBaseSchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  enabled: z.boolean().optional(),
+});
+
+const McpStdioServerSchema = McpServerBaseSchema.extend({
+  type: z.literal('stdio'),
+  command: z.string(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+});
+
+const McpRemoteServerSchema = McpServerBaseSchema.extend({
+  type: z.enum(['http', 'sse']),
+  url: z.string().url(),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+/**
+ * Migrate legacy server entries to the typed shape.
+ * Older configs had no "type" and stored remote servers as
+ * command "__http__" / "__sse__" with the URL in args[0].
+ */
+export function migrateMcpServerConfig(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object' || 'type' in raw) {
+    return raw;
+  }
+
+  const legacy = raw as { command?: unknown; args?: unknown[] };
+  const marker = typeof legacy.command === 'string' ? legacy.command.match(/^__(http|sse)__$/) : null;
+  if (marker) {
+    return { type: marker[1], url: legacy.args?.[0] };
+  }
+  return { type: 'stdio', ...raw };
+}
+
+export const McpServerConfigSchema = z.preprocess(
+  migrateMcpServerConfig,
+  z.discriminatedUnion('type', [
+    McpStdioServerSchema,
+    McpRemoteServerSchema.extend({ type: z.literal('http') }),
+    McpRemoteServerSchema.extend({ type: z.literal('sse') }),
+  ])
+);
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+export type McpStdioServerConfig = Extract<McpServerConfig, { type: 'stdio' }>;
+export type McpRemoteServerConfig = Exclude<McpServerConfig, McpStdioServerConfig>;
+
+const RiskRuleConfigSchema = z.object({
+  id: z.string(),
+  /** Regular expression (case-insensitive) tested against each command */
+  pattern: z.string(),
+  severity: z.enum(['medium', 'high']).default('high'),
+  message: z.string().optional(),
+});
+
+/**
+ * Policy for flagging dangerous suggested commands
+ */
+const RiskPolicySchema = z.object({
+  enabled: z.boolean().optional(),
+  /** Built-in rule ids to turn off */
+  disabledRules: z.array(z.string()).optional(),
+  /** Extra rules */
+  rules: z.array(RiskRuleConfigSchema).optional(),
+  /** Commands matching any of these regular expressions are never flagged */
+  allow: z.array(z.string()).optional(),
+});
+
+export type RiskRuleConfig = z.infer<typeof RiskRuleConfigSchema>;
+export type RiskPolicy = z.infer<typeof RiskPolicySchema>;
+
+/**
+ * Secret redaction for content sent to the model and stored in session.db
+ */
+const RedactionConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  /** Extra regular expressions; every match is redacted */
+  patterns: z.array(z.string()).optional(),
+});
+
+export type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+
+/**
+ * Which shell history to read (defaults to $SHELL and the shell's usual history file)
+ */
+const ShellHistoryConfigSchema = z.object({
+  shell: z.enum(['zsh', 'bash', 'fish']).optional(),
+  path: z.string().optional(),
+});
+
+export type ShellHistoryConfig = z.infer<typeof ShellHistoryConfigSchema>;
+
+/**
+ * Limits for the man page / tldr / --help cache in ~/.cache/hey-ai/docs
+ */
+const DocsCacheConfigSchema = z.object({
+  maxSizeMB: z.number().positive().optional(),
+  /** Entries older than this are fetched again */
+  ttlDays: z.number().positive().optional(),
+});
+
+export type DocsCacheConfig = z.infer<typeof DocsCacheConfigSchema>;
+
+/**
+ * Checking suggested commands' flags against local man pages and --help
+ */
+const FlagCheckConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  /** Whether unknown flags are sent back to the model for a corrected version */
+  repair: z.enum(['ask', 'auto', 'never']).optional(),
+});
+
+export type FlagCheckConfig = z.infer<typeof FlagCheckConfigSchema>;
+
+/**
+ * `zsh -n` / `bash -n` and shellcheck on suggested code
+ */
+const SyntaxCheckConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  /** Automatic attempts at getting a block with syntax errors fixed (0 to only warn) */
+  maxRepairs: z.number().int().min(0).max(5).optional(),
+});
+
+export type SyntaxCheckConfig = z.infer<typeof SyntaxCheckConfigSchema>;
+
+// Servers are parsed one by one, so a single invalid entry doesn't discard the rest
 const AppConfigSchema = z.object({
   defaultModel: z.string().optional(),
-  mcpServers: z.record(
-    z.string(),
-    z.object({
-      command: z.string(),
-      args: z.array(z.string()).optional(),
-      env: z.record(z.string(), z.string()).optional(),
-    })
-  ).optional().default({})
+  conversationTokenBudget: z.number().int().positive().optional(),
+  riskPolicy: RiskPolicySchema.optional(),
+  redaction: RedactionConfigSchema.optional(),
+  shellHistory: ShellHistoryConfigSchema.optional(),
+  docsCache: DocsCacheConfigSchema.optional(),
+  flagCheck: FlagCheckConfigSchema.optional(),
+  syntaxCheck: SyntaxCheckConfigSchema.optional(),
+  mcpServers: z.record(z.string(), z.unknown()).optional().default({})
 });
 
-export type AppConfig = z.infer<typeof AppConfigSchema>;
+export type AppConfig = Omit<z.infer<typeof AppConfigSchema>, 'mcpServers'> & {
+  mcpServers: Record<string, McpServerConfig>;
+};
+
+// Problems already reported in this process; the config is loaded several times per command
+const reportedProblems = new Set<string>();
+
+function reportProblem(message: string) {
+  if (reportedProblems.has(message)) return;
+  reportedProblems.add(message);
+  console.error(`Warning: ${message}`);
+}
+
+function formatIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return `${issue.path.join('.') || 'value'}: ${issue.message}`;
+}
+
+/**
+ * A server entry from the config file that failed to parse
+ */
+export interface InvalidMcpServer {
+  /** The entry as it is in the file */
+  entry: unknown;
+  /** Why it was rejected */
+  error: string;
+}
 
 export class ConfigManager {
   private configPath: string;
+  /** Why the config file couldn't be used, if it couldn't; it is never overwritten then */
+  private loadError: string | null = null;
+  /** Raw server entries that failed to parse, kept as they are when the config is saved */
+  private invalidServers: Record<string, InvalidMcpServer> = {};
 
   constructor(configPath?: string) {
     this.configPath = configPath || path.join(os.homedir(), '.config', 'hey-ai', 'config.json');
   }
 
   async loadConfig(): Promise<AppConfig> {
+    this.loadError = null;
+    this.invalidServers = {};
+
+    let json: unknown;
     try {
-      const content = await fs.readFile(this.configPath, 'utf-8');
-      const json = JSON.parse(content);
-      return AppConfigSchema.parse(json);
+      json = JSON.parse(await fs.readFile(this.configPath, 'utf-8'));
     } catch (error) {
       if ((error as any).code === 'ENOENT') {
-        return { mcpServers: {} };
-      }
-      // If mcp.json exists but config.json doesn't, we might want to migrate or check both
-      // For now, let's check for the old mcp.json if config.json is missing
-      const oldMcpPath = path.join(os.homedir(), '.config', 'hey-ai', 'mcp.json');
-      try {
-        const content = await fs.readFile(oldMcpPath, 'utf-8');
-        const json = JSON.parse(content);
-        // Minimal validation for migration
-        if (json.mcpServers) {
-          return { mcpServers: json.mcpServers };
-        }
-      } catch (e) {
-        // ignore
+        return this.loadLegacyMcpConfig();
       }
+      this.loadError = `${this.configPath} is not valid JSON (${error instanceof Error ? error.message : error})`;
+      reportProblem(`${this.loadError}, using the default configuration`);
+      return { mcpServers: {} };
+    }
 
+    const result = AppConfigSchema.safeParse(json);
+    if (!result.success) {
+      this.loadError = `${this.configPath} is invalid (${formatIssue(result.error)})`;
+      reportProblem(`${this.loadError}, using the default configuration`);
       return { mcpServers: {} };
     }
+
+    return { ...result.data, mcpServers: this.parseMcpServers(result.data.mcpServers) };
+  }
+
+  /**
+   * Names of MCP servers in the config file that failed to parse and were ignored
+   */
+  getInvalidServers(): string[] {
+    return Object.keys(this.invalidServers);
   }
 
+  /**
+   * An ignored server entry and why it failed to parse, so it can be shown and removed
+   */
+  getInvalidServer(name: string): InvalidMcpServer | undefined {
+    return Object.hasOwn(this.invalidServers, name) ? this.invalidServers[name] : undefined;
+  }
+
+  /**
+   * Parse and migrate each server entry on its own, reporting and skipping invalid ones
+   */
+  private parseMcpServers(raw: Record<string, unknown>): Record<string, McpServerConfig> {
+    const servers: Record<string, McpServerConfig> = {};
+    for (const [name, entry] of Object.entries(raw)) {
+      const result = McpServerConfigSchema.safeParse(entry);
+      if (result.success) {
+        servers[name] = result.data;
+      } else {
+        this.invalidServers[name] = { entry, error: formatIssue(result.error) };
+        reportProblem(`ignoring MCP server "${name}" in ${this.configPath} (${this.invalidServers[name].error})`);
+      }
+    }
+    return servers;
+  }
+
+  /**
+   * Servers from the old ~/.config/hey-ai/mcp.json, used until config.json exists
+   */
+  private async loadLegacyMcpConfig(): Promise<AppConfig> {
+    const oldMcpPath = path.join(os.homedir(), '.config', 'hey-ai', 'mcp.json');
+    try {
+      const json = JSON.parse(await fs.readFile(oldMcpPath, 'utf-8'));
+      // Migrate server entries to the typed shape
+      if (json.mcpServers && typeof json.mcpServers === 'object') {
+        return { mcpServers: this.parseMcpServers(json.mcpServers) };
+      }
+    } catch (e) {
+      // ignore
+    }
+    return { mcpServers: {} };
+  }
+
+  /**
+   * Merge updates into the config file. Refuses to write over a file that failed to
+   * parse, which would lose everything in it; invalid server entries are kept as they are.
+   */
   async setConfig(updates: Partial<AppConfig>): Promise<void> {
     const current = await this.loadConfig();
-    const updated = { ...current, ...updates };
-    
+    await this.writeConfig({ ...current, ...updates }, updates.mcpServers ?? current.mcpServers);
+  }
+
+  /**
+   * Remove an MCP server, including one that failed to parse.
+   * Returns false when there is no server with that name.
+   */
+  async removeMcpServer(name: string): Promise<boolean> {
+    const current = await this.loadConfig();
+    if (!Object.hasOwn(current.mcpServers, name) && !this.getInvalidServer(name)) {
+      return false;
+    }
+    delete current.mcpServers[name];
+    delete this.invalidServers[name];
+    await this.writeConfig(current, current.mcpServers);
+    return true;
+  }
+
+  private async writeConfig(config: AppConfig, servers: Record<string, McpServerConfig>): Promise<void> {
+    if (this.loadError) {
+      throw new Error(`Not saving the configuration: ${this.loadError}. Fix or remove the file first.`);
+    }
+    const invalid = Object.fromEntries(Object.entries(this.invalidServers).map(([name, { entry }]) => [name, entry]));
+    const updated = { ...config, mcpServers: { ...invalid, ...servers } };
+
     const configDir = path.dirname(this.configPath);
     await fs.mkdir(configDir, { recursive: true });
     await fs.writeFile(this.configPath, JSON.stringify(updated, null, 2));
   }
 }
-
@@ -16,6 +16,19 @@ const COMMAND_ALTERNATIVES: Record<string, string[]> = {
   ps: ['procs'],
 };
 
+/**
+ * Path of the executable a command name resolves to on PATH, or null
+ */
+export function resolveCommandPath(cmd: string): string | null {
+  try {
+    const result = spawnSync('which', [cmd], { encoding: 'utf8', env: process.env });
+    const resolved = result.status === 0 ? result.stdout.trim().split('\n')[0] : '';
+    return resolved || null;
+  } catch {
+    return null;
+  }
+}
+
 export class CommandDetector {
   private availableCommands: Set<string> = new Set();
   private preferredCommands: Map<string, string> = new Map();
@@ -40,12 +53,14 @@ export class CommandDetector {
   }
 
   private isCommandAvailable(cmd: string): boolean {
-    try {
-      const result = spawnSync('which', [cmd], { encoding: 'utf8' });
-      return result.status === 0 && result.stdout.trim().length > 0;
-    } catch {
-      return false;
-    }
+    return resolveCommandPath(cmd) !== null;
+  }
+
+  /**
+   * Whether a detected alternative (e.g. `rg`) is installed
+   */
+  hasCommand(cmd: string): boolean {
+    return this.availableCommands.has(cmd);
   }
 
   getAvailableAlternatives(): string[] {
@@ -1,14 +1,55 @@
 /**
- * File-based cache for command documentation (man pages, tldr).
- * Uses size-based LRU eviction to keep cache under 100MB.
+ * File-based cache for command documentation (man pages, tldr, --help output), stored as
+ * parsed sections. Entries are keyed on the command and the binary it resolves to, and
+ * are dropped when that binary changes or after a TTL.
+ * Uses size-based LRU eviction to keep cache under 100MB (configurable).
  */
 
 import fsp from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
 import crypto from 'node:crypto';
+import { resolveCommandPath } from './commands.js';
+import type { CommandDocs } from './docs.js';
 
-export type DocSource = 'man' | 'tldr';
+export type DocSource = 'man' | 'tldr' | 'help';
+
+export interface DocsCacheOptions {
+  maxSizeMB?: number;
+  ttlDays?: number;
+}
+
+/**
+ * A cache entry as shown by `hey-ai cache list`
+ */
+export interface CachedDocsInfo {
+  command: string;
+  source: DocSource;
+  /** Executable the docs were fetched for, null for builtins and topics */
+  binary: string | null;
+  cachedAt: number;
+  lastUsed: number;
+  size: number;
+  /** Expired, or the binary changed since the docs were fetched */
+  stale: boolean;
+}
+
+export interface DocsCacheStats {
+  entries: number;
+  stale: number;
+  totalBytes: number;
+  maxBytes: number;
+  ttlDays: number;
+  bySource: Record<DocSource, number>;
+}
+
+interface CachedDocs extends CommandDocs {
+  command: string;
+  binary: string | null;
+  /** mtime of the binary when the docs were fetched */
+  binaryMtimeMs: number | null;
+  cachedAt: number;
+}
 
 interface CacheFileInfo {
   path: string;
@@ -16,57 +57,107 @@ interface CacheFileInfo {
   mtimeMs: number;
 }
 
+interface BinaryInfo {
+  path: string;
+  mtimeMs: number;
+}
+
+const DEFAULT_MAX_SIZE_MB = 100;
+const DEFAULT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Executable a command (or the first word of a subcommand) resolves to, with its mtime
+ */
+async function resolveBinary(command: string): Promise<BinaryInfo | null> {
+  const resolved = resolveCommandPath(command.split(' ')[0]);
+  if (!resolved) return null;
+  try {
+    // Follows symlinks, so upgrades that relink e.g. /opt/homebrew/bin/fd are seen
+    const stat = await fsp.stat(resolved);
+    return { path: resolved, mtimeMs: stat.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+function parseEntry(content: string): CachedDocs | null {
+  try {
+    const entry = JSON.parse(content);
+    if (typeof entry.command !== 'string' || typeof entry.source !== 'string' ||
+        !Array.isArray(entry.sections) || typeof entry.cachedAt !== 'number') {
+      return null;
+    }
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
 export class CommandDocsCache {
   private cacheDir: string;
   private maxSizeBytes: number;
+  private ttlMs: number;
   private evictionInProgress: boolean = false;
 
-  constructor(cacheDir?: string, maxSizeMB: number = 100) {
+  constructor(cacheDir?: string, options: DocsCacheOptions = {}) {
     this.cacheDir = cacheDir || path.join(os.homedir(), '.cache', 'hey-ai', 'docs');
-    this.maxSizeBytes = maxSizeMB * 1024 * 1024;
+    this.maxSizeBytes = (options.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+    this.ttlMs = (options.ttlDays ?? DEFAULT_TTL_DAYS) * DAY_MS;
   }
 
   /**
-   * Generate a safe filename for a command.
+   * Generate a safe filename for a command and the binary it resolves to.
    * Uses URL encoding to avoid collisions and hashes if too long.
    */
-  private getCachePath(command: string): string {
+  private getCachePath(command: string, binary: string | null): string {
     // URL-encode to handle special characters safely and avoid collisions
     let sanitized = encodeURIComponent(command);
-    
+
     // If the encoded name is too long (>200 chars), use a hash
     if (sanitized.length > 200) {
       const hash = crypto.createHash('sha256').update(command).digest('hex').slice(0, 16);
       // Keep a prefix for readability, then append hash
       sanitized = `${sanitized.slice(0, 50)}_${hash}`;
     }
-    
-    return path.join(this.cacheDir, `${sanitized}.txt`);
+
+    // Docs for e.g. two node versions on PATH are kept side by side
+    if (binary) {
+      sanitized += `@${crypto.createHash('sha256').update(binary).digest('hex').slice(0, 8)}`;
+    }
+
+    return path.join(this.cacheDir, `${sanitized}.json`);
+  }
+
+  private isStale(entry: CachedDocs, binary: BinaryInfo | null): boolean {
+    if (Date.now() - entry.cachedAt > this.ttlMs) return true;
+    return entry.binary !== null && entry.binaryMtimeMs !== (binary?.mtimeMs ?? null);
   }
 
   /**
    * Get cached documentation for a command.
-   * Returns null if not cached.
+   * Returns null if not cached, expired, or the binary changed since.
    */
-  async get(command: string): Promise<string | null> {
-    const cachePath = this.getCachePath(command);
-    
+  async get(command: string): Promise<CommandDocs | null> {
+    const binary = await resolveBinary(command);
+    const cachePath = this.getCachePath(command, binary?.path ?? null);
+
     try {
       const content = await fsp.readFile(cachePath, 'utf8');
-      
+
       // Parse the cache file format
-      const match = content.match(/^---\nsource: (man|tldr)\n---\n([\s\S]*)$/);
-      if (!match) {
-        // Invalid format, delete and return null
+      const entry = parseEntry(content);
+      if (!entry || this.isStale(entry, binary)) {
+        // Invalid format or outdated, delete and return null
         await fsp.unlink(cachePath).catch(() => {});
         return null;
       }
-      
+
       // Update mtime to mark as recently used
       const now = new Date();
       await fsp.utimes(cachePath, now, now).catch(() => {});
-      
-      return match[2];
+
+      return { source: entry.source, sections: entry.sections };
     } catch {
       // File doesn't exist or read failed
       return null;
@@ -77,16 +168,23 @@ export class CommandDocsCache {
    * Cache documentation for a command.
    * Triggers LRU eviction if cache exceeds max size.
    */
-  async set(command: string, content: string, source: DocSource): Promise<void> {
-    const cachePath = this.getCachePath(command);
-    
+  async set(command: string, docs: CommandDocs): Promise<void> {
+    const binary = await resolveBinary(command);
+    const cachePath = this.getCachePath(command, binary?.path ?? null);
+
     // Ensure cache directory exists
     await fsp.mkdir(this.cacheDir, { recursive: true });
-    
-    // Write cache file with metadata header
-    const cacheContent = `---\nsource: ${source}\n---\n${content}`;
-    await fsp.writeFile(cachePath, cacheContent, 'utf8');
-    
+
+    const entry: CachedDocs = {
+      command,
+      source: docs.source,
+      sections: docs.sections,
+      binary: binary?.path ?? null,
+      binaryMtimeMs: binary?.mtimeMs ?? null,
+      cachedAt: Date.now(),
+    };
+    await fsp.writeFile(cachePath, JSON.stringify(entry), 'utf8');
+
     // Enforce max size (async, don't block return)
     this.enforceMaxSize().catch((error) => {
       // Log eviction errors for debugging
@@ -96,6 +194,115 @@ export class CommandDocsCache {
     });
   }
 
+  /**
+   * All cache entries, most recently used first
+   */
+  async list(): Promise<CachedDocsInfo[]> {
+    const entries: CachedDocsInfo[] = [];
+    for (const file of await this.listFiles()) {
+      try {
+        const entry = parseEntry(await fsp.readFile(file.path, 'utf8'));
+        if (!entry) continue;
+
+        // The recorded binary is checked directly, without resolving PATH again
+        let binary: BinaryInfo | null = null;
+        if (entry.binary) {
+          const stat = await fsp.stat(entry.binary).catch(() => null);
+          binary = stat ? { path: entry.binary, mtimeMs: stat.mtimeMs } : null;
+        }
+
+        entries.push({
+          command: entry.command,
+          source: entry.source,
+          binary: entry.binary,
+          cachedAt: entry.cachedAt,
+          lastUsed: file.mtimeMs,
+          size: file.size,
+          stale: this.isStale(entry, binary),
+        });
+      } catch {
+        // File may have been deleted, skip
+      }
+    }
+    return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+  }
+
+  async stats(): Promise<DocsCacheStats> {
+    const entries = await this.list();
+    const bySource: Record<DocSource, number> = { man: 0, tldr: 0, help: 0 };
+    for (const entry of entries) {
+      bySource[entry.source] = (bySource[entry.source] || 0) + 1;
+    }
+    return {
+      entries: entries.length,
+      stale: entries.filter(entry => entry.stale).length,
+      totalBytes: entries.reduce((total, entry) => total + entry.size, 0),
+      maxBytes: this.maxSizeBytes,
+      ttlDays: this.ttlMs / DAY_MS,
+      bySource,
+    };
+  }
+
+  /**
+   * Delete the entries for some commands (for every binary), or the whole cache.
+   * Returns the number of files deleted.
+   */
+  async clear(commands?: string[]): Promise<number> {
+    const wanted = commands && new Set(commands.map(command => command.trim().split(/\s+/).join(' ')));
+    let removed = 0;
+
+    for (const file of await this.listFiles()) {
+      if (wanted) {
+        const entry = parseEntry(await fsp.readFile(file.path, 'utf8').catch(() => ''));
+        if (!entry || !wanted.has(entry.command)) continue;
+      }
+      try {
+        await fsp.unlink(file.path);
+        removed++;
+      } catch {
+        // File may have been deleted, skip
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Cache files with their size and last use
+   */
+  private async listFiles(): Promise<CacheFileInfo[]> {
+    let files: string[];
+    try {
+      files = await fsp.readdir(this.cacheDir);
+    } catch {
+      // Cache dir may not exist yet
+      return [];
+    }
+
+    const fileInfos: CacheFileInfo[] = [];
+    for (const file of files) {
+      const filePath = path.join(this.cacheDir, file);
+
+      // Entries from before docs were cached as sections
+      if (file.endsWith('.txt')) {
+        await fsp.unlink(filePath).catch(() => {});
+        continue;
+      }
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const stat = await fsp.stat(filePath);
+        fileInfos.push({
+          path: filePath,
+          size: stat.size,
+          mtimeMs: stat.mtimeMs
+        });
+      } catch {
+        // File may have been deleted, skip
+      }
+    }
+    return fileInfos;
+  }
+
   /**
    * Delete oldest cache files until total size is under limit.
    * Uses a lock to prevent concurrent eviction operations.
@@ -105,47 +312,28 @@ export class CommandDocsCache {
     if (this.evictionInProgress) {
       return;
     }
-    
+
     this.evictionInProgress = true;
-    
+
     try {
-      const files = await fsp.readdir(this.cacheDir);
-      
       // Get file info for all cache files
-      const fileInfos: CacheFileInfo[] = [];
-      let totalSize = 0;
-      
-      for (const file of files) {
-        if (!file.endsWith('.txt')) continue;
-        
-        const filePath = path.join(this.cacheDir, file);
-        try {
-          const stat = await fsp.stat(filePath);
-          fileInfos.push({
-            path: filePath,
-            size: stat.size,
-            mtimeMs: stat.mtimeMs
-          });
-          totalSize += stat.size;
-        } catch {
-          // File may have been deleted, skip
-        }
-      }
-      
+      const fileInfos = await this.listFiles();
+      let totalSize = fileInfos.reduce((total, file) => total + file.size, 0);
+
       // If under limit, nothing to do
       if (totalSize <= this.maxSizeBytes) {
         return;
       }
-      
+
       // Sort by mtime ascending (oldest first)
       fileInfos.sort((a, b) => a.mtimeMs - b.mtimeMs);
-      
+
       // Delete oldest files until under limit
       for (const fileInfo of fileInfos) {
         if (totalSize <= this.maxSizeBytes) {
           break;
         }
-        
+
         try {
           await fsp.unlink(fileInfo.path);
           totalSize -= fileInfo.size;
@@ -153,8 +341,6 @@ export class CommandDocsCache {
           // File may have been deleted, skip
         }
       }
-    } catch {
-      // Cache dir may not exist yet, ignore
     } finally {
       this.evictionInProgress = false;
     }
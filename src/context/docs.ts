@@ -0,0 +1,390 @@
+/**
+ * Command documentation: fetched from man, tldr or --help, split into
+ * sections, with lookup of single sections and of the paragraph describing a flag
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { resolveCommandPath } from './commands.js';
+import type { CommandDocsCache, DocSource } from './docs-cache.js';
+import { isWithinDir } from './files.js';
+
+export interface DocSection {
+  /** Upper-case heading, e.g. `OPTIONS`, `SEE ALSO` */
+  name: string;
+  content: string;
+}
+
+export interface CommandDocs {
+  source: DocSource;
+  sections: DocSection[];
+}
+
+export interface DocsFetchOptions {
+  /**
+   * Run the command with `--help` when it has no man or tldr page (default true).
+   * Off for commands taken from model output that nobody asked to look up.
+   */
+  runHelp?: boolean;
+}
+
+// A command or subcommand name that is safe to pass as an argument (not a path or an option)
+const COMMAND_WORD = /^[A-Za-z0-9_][\w.+-]*$/;
+
+// Commands that are never run just to read their --help
+const NEVER_RUN_FOR_HELP = new Set(['reboot', 'shutdown', 'halt', 'poweroff', 'init', 'telinit']);
+
+const MAX_HELP_OUTPUT_BYTES = 1024 * 1024;
+
+// Sections shown when no section or flag is requested
+const OVERVIEW_SECTIONS = ['NAME', 'SYNOPSIS', 'DESCRIPTION'];
+// GNU man pages list every option under DESCRIPTION, so the overview keeps only its start
+const MAX_OVERVIEW_SECTION_CHARS = 3000;
+// Unindented upper-case line, e.g. `NAME`, `EXIT STATUS`
+const HEADING = /^([A-Z][A-Z0-9 &/-]*[A-Z0-9])\s*$/;
+
+/**
+ * Split a rendered man page (after `col -b`) into its sections.
+ * Headings are unindented upper-case lines; the running header and footer
+ * (`LS(1) ... LS(1)`) are dropped.
+ */
+export function parseManPage(text: string): DocSection[] {
+  const sections: { name: string; lines: string[] }[] = [];
+  const lines = text.trimEnd().split('\n');
+  // Footer: `GNU coreutils 9.1   September 2022   LS(1)`
+  if (lines.length > 0 && /^\S/.test(lines[lines.length - 1]) && !HEADING.test(lines[lines.length - 1])) {
+    lines.pop();
+  }
+
+  for (const line of lines) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      sections.push({ name: heading[1].replace(/\s+/g, ' '), lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line.trimEnd());
+    }
+  }
+
+  return sections
+    .map(section => ({ name: section.name, content: dedent(section.lines).replace(/\n{3,}/g, '\n\n').trim() }))
+    .filter(section => section.content);
+}
+
+/**
+ * Split `--help` output into sections. Headings are unindented lines such as
+ * `Options:`, `usage: ...` or `CORE COMMANDS`; text before the first heading
+ * becomes DESCRIPTION and `Usage` becomes SYNOPSIS, like in man pages.
+ */
+export function parseHelpOutput(text: string): DocSection[] {
+  const sections: { name: string; lines: string[] }[] = [{ name: 'DESCRIPTION', lines: [] }];
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(HEADING);
+    const labelled = heading ? null : line.match(/^([A-Za-z][A-Za-z ]{0,30}):(?:\s+(.*))?$/);
+    if (heading || (labelled && labelled[1].split(' ').length <= 3)) {
+      const name = (heading ? heading[1] : labelled![1]).toUpperCase().replace(/\s+/g, ' ');
+      sections.push({ name: name === 'USAGE' ? 'SYNOPSIS' : name, lines: labelled?.[2] ? [labelled[2]] : [] });
+    } else {
+      sections[sections.length - 1].lines.push(line.trimEnd());
+    }
+  }
+
+  // Repeated headings (several `Options:` groups) are merged
+  const merged: DocSection[] = [];
+  for (const section of sections) {
+    const content = dedent(section.lines).replace(/\n{3,}/g, '\n\n').trim();
+    if (!content) continue;
+    const existing = merged.find(s => s.name === section.name);
+    if (existing) {
+      existing.content += `\n\n${content}`;
+    } else {
+      merged.push({ name: section.name, content });
+    }
+  }
+  return merged;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function dedent(lines: string[]): string {
+  const indents = lines.filter(line => line.trim()).map(indentOf);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(common)).join('\n');
+}
+
+/**
+ * A section by name (case-insensitive), e.g. `options` or `see also`
+ */
+export function findSection(docs: CommandDocs, name: string): DocSection | null {
+  const wanted = name.trim().toUpperCase().replace(/\s+/g, ' ');
+  return docs.sections.find(section => section.name === wanted) || null;
+}
+
+/**
+ * `z` -> `-z`, `null` -> `--null`, `--color=auto` -> `--color`
+ */
+export function normalizeFlag(flag: string): string {
+  const name = flag.trim().split('=')[0];
+  if (name.startsWith('-') || name.startsWith('+')) return name;
+  return name.length === 1 ? `-${name}` : `--${name}`;
+}
+
+/**
+ * Paragraphs describing a flag, e.g. the `-z, --null` entry and its indented
+ * description. OPTIONS (or FLAGS) is searched first; GNU pages document options under
+ * DESCRIPTION, so the other sections follow. Returns null if the flag isn't documented.
+ */
+export function findFlag(docs: CommandDocs, flag: string): string | null {
+  const name = normalizeFlag(flag);
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // The flag as a whole word: `-z,`, `--color[=WHEN]`, `--output=FILE`, `-o <file>`
+  const pattern = new RegExp(`(^|[\\s,\\[|/])${escaped}(?=$|[\\s,=\\[<|/:])`);
+
+  const ordered = [
+    ...docs.sections.filter(section => /OPTIONS|FLAGS/.test(section.name)),
+    ...docs.sections.filter(section => !/OPTIONS|FLAGS/.test(section.name)),
+  ];
+
+  for (const section of ordered) {
+    const paragraphs = findFlagParagraphs(section.content, pattern);
+    if (paragraphs.length > 0) {
+      return paragraphs.join('\n\n');
+    }
+  }
+  return null;
+}
+
+function findFlagParagraphs(content: string, pattern: RegExp): string[] {
+  const lines = content.split('\n');
+  const paragraphs: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trimStart();
+    if (!/^[-+]/.test(trimmed)) continue;
+
+    // BSD pages put the description on the same line after a wide gap
+    const term = trimmed.split(/\s{2,}|\t/)[0];
+    if (!pattern.test(term)) continue;
+
+    // The description is everything indented deeper than the flag, up to the
+    // next flag (help output indents long-only flags past the short ones)
+    const indent = indentOf(lines[i]);
+    let body: number | undefined;
+    let end = i + 1;
+    for (; end < lines.length; end++) {
+      const line = lines[end];
+      if (!line.trim()) continue;
+      if (indentOf(line) <= indent) break;
+      if (/^[-+]{1,2}[A-Za-z0-9]/.test(line.trimStart()) && (body === undefined || indentOf(line) <= body)) break;
+      body ??= indentOf(line);
+    }
+    paragraphs.push(dedent(lines.slice(i, end)).trim());
+    i = end - 1;
+  }
+  return paragraphs;
+}
+
+/**
+ * NAME, SYNOPSIS and the start of DESCRIPTION, followed by the list of
+ * sections that can be requested
+ */
+export function formatDocsOverview(docs: CommandDocs): string {
+  const overview = docs.sections.filter(section => OVERVIEW_SECTIONS.includes(section.name));
+  // tldr pages have no man page sections
+  const shown = overview.length > 0 ? overview : docs.sections.slice(0, 1);
+
+  const parts = shown.map(section => {
+    const content = section.content.length > MAX_OVERVIEW_SECTION_CHARS
+      ? `${section.content.slice(0, MAX_OVERVIEW_SECTION_CHARS)}\n... (truncated, request the ${section.name} section or a flag for more)`
+      : section.content;
+    return `### ${section.name}\n${content}`;
+  });
+
+  const others = docs.sections.filter(section => !shown.includes(section)).map(section => section.name);
+  if (others.length > 0) {
+    parts.push(`Other sections: ${others.join(', ')}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Words of a command or subcommand (`git rebase`), or null if any word could
+ * be a path or an option
+ */
+export function splitCommandName(command: string): string[] | null {
+  const words = command.trim().split(/\s+/).filter(Boolean);
+  return words.length > 0 && words.every(word => COMMAND_WORD.test(word)) ? words : null;
+}
+
+/**
+ * Documentation for a command, from the cache or fetched with lookup order
+ * man -> tldr -> --help
+ */
+export async function loadCommandDocs(command: string, cache: CommandDocsCache, options: DocsFetchOptions = {}): Promise<CommandDocs | null> {
+  // Only plain command names are passed to man, tldr and --help
+  const words = splitCommandName(command);
+  if (!words) {
+    return null;
+  }
+  const name = words.join(' ');
+
+  // 1. Check cache first (fast async read)
+  const cached = await cache.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  // 2. Fetch and cache
+  const docs = fetchCommandDocs(words, options);
+  if (docs) {
+    await cache.set(name, docs).catch((error) => {
+      if (process.env.DEBUG) {
+        console.error('[docs-cache] Cache write error:', error);
+      }
+    });
+  }
+  return docs;
+}
+
+/**
+ * Try man first (fast, ~100ms; `man git-rebase` for subcommands), then tldr
+ * (with auto-update disabled, ~4ms), then the command's own help
+ */
+export function fetchCommandDocs(words: string[], options: DocsFetchOptions = {}): CommandDocs | null {
+  const page = words.join('-');
+
+  const manSections = fetchManPage(page);
+  if (manSections) {
+    return { source: 'man', sections: manSections };
+  }
+
+  const tldrResult = fetchTldrPage(page);
+  if (tldrResult) {
+    return { source: 'tldr', sections: [{ name: 'EXAMPLES', content: tldrResult }] };
+  }
+
+  if (options.runHelp === false) {
+    return null;
+  }
+  const helpResult = fetchHelpOutput(words);
+  if (helpResult) {
+    return { source: 'help', sections: parseHelpOutput(helpResult) };
+  }
+  return null;
+}
+
+/**
+ * Fetch the man page for a command, split into sections
+ */
+function fetchManPage(page: string): DocSection[] | null {
+  try {
+    // Run man with command as argument (not interpolated into shell string)
+    const man = spawnSync('man', [page], {
+      encoding: 'utf8',
+      timeout: 5000,
+      maxBuffer: 10 * 1024 * 1024,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Render at a fixed width so option paragraphs wrap the same everywhere
+      env: { ...process.env, MANWIDTH: '100' }
+    });
+    if (man.status === 0 && man.stdout) {
+      // Strip formatting using col -b
+      const col = spawnSync('col', ['-b'], {
+        encoding: 'utf8',
+        input: man.stdout,
+        timeout: 1000,
+        maxBuffer: 10 * 1024 * 1024,
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      const output = col.status === 0 ? col.stdout : man.stdout;
+      const sections = parseManPage(output);
+      if (sections.length > 0) {
+        return sections;
+      }
+    }
+  } catch {
+    // man not available or failed
+  }
+  return null;
+}
+
+/**
+ * Fetch tldr page for a command (with auto-update disabled for speed)
+ */
+function fetchTldrPage(page: string): string | null {
+  try {
+    const tldr = spawnSync('tldr', [page], {
+      encoding: 'utf8',
+      timeout: 5000,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, TLDR_AUTO_UPDATE_DISABLED: '1' }
+    });
+    if (tldr.status === 0 && tldr.stdout.trim()) {
+      return tldr.stdout.trim();
+    }
+  } catch {
+    // tldr not available
+  }
+  return null;
+}
+
+/**
+ * Whether an executable found on PATH lives in the current project (`node_modules/.bin`,
+ * `./bin`, or `.` on PATH): that is a project script rather than an installed tool
+ */
+function isProjectExecutable(binary: string): boolean {
+  const realpath = (file: string) => {
+    try {
+      return fs.realpathSync(file);
+    } catch {
+      return path.resolve(file);
+    }
+  };
+  return isWithinDir(realpath(process.cwd()), realpath(binary));
+}
+
+/**
+ * Run `<cmd> [sub...] --help` without a shell, stdin, or a TTY, from a temporary
+ * directory, with a timeout and an output cap. Only installed tools are run, not
+ * scripts in the current project. `-h` is not tried: for many tools it means
+ * something else (`-h host`, human-readable sizes, `shutdown -h`).
+ */
+function fetchHelpOutput(words: string[]): string | null {
+  if (NEVER_RUN_FOR_HELP.has(words[0])) {
+    return null;
+  }
+  const binary = resolveCommandPath(words[0]);
+  if (!binary || isProjectExecutable(binary)) {
+    return null;
+  }
+
+  try {
+    const help = spawnSync(binary, [...words.slice(1), '--help'], {
+      encoding: 'utf8',
+      cwd: os.tmpdir(),
+      timeout: 3000,
+      killSignal: 'SIGKILL',
+      maxBuffer: MAX_HELP_OUTPUT_BYTES,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Help printed through a pager would never return
+      env: { ...process.env, PAGER: 'cat', MANPAGER: 'cat', GIT_PAGER: 'cat', NO_COLOR: '1', TERM: 'dumb' }
+    });
+    // Output over the cap is kept as far as it goes
+    if (help.error && (help.error as NodeJS.ErrnoException).code !== 'ENOBUFS') return null;
+
+    // Some tools print help on stderr, or exit non-zero after printing it
+    const output = (help.stdout.trim() || help.stderr.trim())
+      .replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+      .replace(/.\x08/g, '');
+    if (output && (help.status === 0 || /usage|options/i.test(output))) {
+      return output;
+    }
+  } catch {
+    // Not runnable
+  }
+  return null;
+}
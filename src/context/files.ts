@@ -1,6 +1,148 @@
 import { globby } from 'globby';
+import { createReadStream } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import readline from 'node:readline';
+
+// Directories skipped even when they aren't in .gitignore
+export const IGNORED_PATTERNS = ['.git/**', 'node_modules/**', 'dist/**', 'coverage/**'];
+
+// Bytes sniffed at the start of a file to detect binary content and encoding
+const SNIFF_BYTES = 8192;
+// Defaults for what one read returns; minified bundles and one-line JSON would be megabytes
+const DEFAULT_MAX_CHARS = 20000;
+const DEFAULT_MAX_LINE_LENGTH = 1000;
+// Files up to this size get a total line count when reading stops before the end
+const MAX_COUNTED_BYTES = 64 * 1024 * 1024;
+
+export type FileEncoding = 'utf-8' | 'utf-16le' | 'latin1';
+
+export interface FileReadOptions {
+  /** First line to return (1-based) */
+  startLine?: number;
+  /** Last line to return (inclusive) */
+  endLine?: number;
+  /** Return the last N lines instead of a range */
+  tail?: number;
+  /** Maximum number of lines to return (default: 100) */
+  maxLines?: number;
+  /** Maximum number of characters to return (default: 20000) */
+  maxChars?: number;
+  /** Longer lines are cut, with a marker saying how much was left out (default: 1000) */
+  maxLineLength?: number;
+}
+
+export interface FileReadResult {
+  size: number;
+  /** Modification time in milliseconds */
+  mtime: number;
+  /** Null for binary files */
+  encoding: FileEncoding | null;
+  binary: boolean;
+  /** Null when reading stopped before the end of a large file */
+  totalLines: number | null;
+  /** Range of the returned lines (1-based, inclusive); 0-0 when nothing was returned */
+  startLine: number;
+  endLine: number;
+  content: string;
+  /** Lines were left out because of maxLines or maxChars */
+  truncated: boolean;
+  /** Returned lines that were cut at maxLineLength */
+  longLines: number;
+}
+
+export type FileSort = 'name' | 'mtime' | 'size';
+
+export interface ListEntriesOptions {
+  /** Subdirectory to list (relative to the project root) */
+  path?: string;
+  /** Files nested deeper than this are rolled up into their directory (default: 3) */
+  depth?: number;
+  /** Glob the files must match (e.g. `*.ts`) */
+  pattern?: string;
+  sort?: FileSort;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * A file, or a directory summarising the files below the depth limit
+ */
+export interface FileEntry {
+  /** Path relative to the listed directory (directories end with `/`) */
+  path: string;
+  type: 'file' | 'directory';
+  /** Bytes (total for directories) */
+  size: number;
+  /** Modification time in milliseconds (latest for directories) */
+  mtime: number;
+  /** Number of files rolled up into a directory */
+  files?: number;
+}
+
+export interface FileListing {
+  entries: FileEntry[];
+  /** Entries before pagination */
+  totalEntries: number;
+  /** Matching files, including rolled-up ones */
+  totalFiles: number;
+}
+
+/**
+ * Whether a glob from a tool argument stays below the directory it is matched in:
+ * no absolute paths (also inside `{a,b}` alternatives), no `~` and no `..`
+ */
+export function isContainedGlob(glob: string): boolean {
+  return !path.isAbsolute(glob) && !/(^|[{,])\s*[\/\\~]/.test(glob) && !glob.includes('..');
+}
+
+/**
+ * Whether a path is the directory itself or below it
+ */
+export function isWithinDir(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Guess the encoding of a file from its first bytes, or null if it looks binary
+ */
+export function detectEncoding(sample: Buffer): FileEncoding | null {
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample.length === 0) return 'utf-8';
+  if (sample.includes(0)) return null;
+
+  // Mostly control characters (other than whitespace) means binary
+  let control = 0;
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) control++;
+  }
+  if (control / sample.length > 0.1) return null;
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'latin1';
+  }
+}
+
+/**
+ * Count the lines of a UTF-8 or Latin-1 file by scanning its bytes, without decoding
+ * them, the way readline counts them (a last line without a newline counts too)
+ */
+async function countLines(fullPath: string): Promise<number> {
+  let count = 0;
+  let last = 0x0a;
+  for await (const chunk of createReadStream(fullPath) as AsyncIterable<Buffer>) {
+    for (let index = chunk.indexOf(0x0a); index !== -1; index = chunk.indexOf(0x0a, index + 1)) {
+      count++;
+    }
+    if (chunk.length > 0) last = chunk[chunk.length - 1];
+  }
+  return last === 0x0a ? count : count + 1;
+}
 
 export class FileContext {
   private cwd: string;
@@ -16,7 +158,7 @@ export class FileContext {
         cwd: this.cwd,
         gitignore: true,
         onlyFiles: true,
-        ignore: ['.git/**', 'node_modules/**', 'dist/**', 'coverage/**'],
+        ignore: IGNORED_PATTERNS,
         deep: 3, // Limit depth to prevent overwhelming context
       });
 
@@ -27,21 +169,199 @@ export class FileContext {
     }
   }
 
+  /**
+   * List files with sizes, rolling up directories below `depth`, sorted and paginated.
+   * Throws on patterns reaching outside the listed directory.
+   */
+  async listEntries(options: ListEntriesOptions = {}): Promise<FileListing> {
+    if (options.pattern && !isContainedGlob(options.pattern)) {
+      throw new Error(`Pattern must be relative to the listed directory without \`..\`: ${options.pattern}`);
+    }
+
+    const depth = Math.max(options.depth ?? 3, 1);
+    const root = path.resolve(this.cwd, options.path || '.');
+    const files = await globby([options.pattern || '**/*'], {
+      cwd: root,
+      gitignore: true,
+      onlyFiles: true,
+      baseNameMatch: true,
+      ignore: IGNORED_PATTERNS,
+      stats: true,
+    });
+
+    const entries: FileEntry[] = [];
+    const directories = new Map<string, FileEntry>();
+    for (const file of files) {
+      if (!isWithinDir(root, path.resolve(root, file.path))) continue;
+      const size = file.stats?.size ?? 0;
+      const mtime = file.stats?.mtimeMs ?? 0;
+      const parts = file.path.split('/');
+
+      if (parts.length <= depth) {
+        entries.push({ path: file.path, type: 'file', size, mtime });
+        continue;
+      }
+
+      const dir = `${parts.slice(0, depth).join('/')}/`;
+      const entry = directories.get(dir);
+      if (entry) {
+        entry.size += size;
+        entry.mtime = Math.max(entry.mtime, mtime);
+        entry.files! += 1;
+      } else {
+        directories.set(dir, { path: dir, type: 'directory', size, mtime, files: 1 });
+      }
+    }
+    entries.push(...directories.values());
+
+    const sort = options.sort || 'name';
+    entries.sort((a, b) => {
+      if (sort === 'size') return b.size - a.size;
+      if (sort === 'mtime') return b.mtime - a.mtime;
+      return a.path.localeCompare(b.path);
+    });
+
+    const offset = Math.max(options.offset ?? 0, 0);
+    const limit = options.limit ?? 50;
+    return {
+      entries: entries.slice(offset, offset + limit),
+      totalEntries: entries.length,
+      totalFiles: files.length,
+    };
+  }
+
   async getFileContent(filePath: string, maxLines: number = 100): Promise<string> {
     try {
-      const fullPath = path.resolve(this.cwd, filePath);
-      const content = await fs.readFile(fullPath, 'utf-8');
-      const lines = content.split('\n');
-      
-      if (lines.length > maxLines) {
-        return lines.slice(0, maxLines).join('\n') + `\n... (truncated ${lines.length - maxLines} lines)`;
+      const result = await this.readFile(filePath, { maxLines });
+      if (result.binary) {
+        return `Binary file ${filePath} (${result.size} bytes)`;
+      }
+      if (result.truncated) {
+        return result.content + (result.totalLines !== null
+          ? `\n... (truncated ${result.totalLines - result.endLine} lines)`
+          : '\n... (truncated)');
       }
-      return content;
+      return result.content;
     } catch (error) {
       return `Error reading file ${filePath}: ${error}`;
     }
   }
 
+  /**
+   * Read a line range (or the tail) of a file without loading it into memory.
+   * Reading stops after the range; long lines and the total size are capped.
+   * Binary files are detected and returned without content.
+   */
+  async readFile(filePath: string, options: FileReadOptions = {}): Promise<FileReadResult> {
+    const fullPath = path.resolve(this.cwd, filePath);
+    const stat = await fs.stat(fullPath);
+    if (stat.isDirectory()) {
+      throw new Error(`${filePath} is a directory`);
+    }
+
+    const handle = await fs.open(fullPath, 'r');
+    let sample: Buffer;
+    try {
+      const buffer = Buffer.alloc(Math.min(SNIFF_BYTES, stat.size));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      sample = buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+
+    const encoding = detectEncoding(sample);
+    const result: FileReadResult = {
+      size: stat.size,
+      mtime: stat.mtimeMs,
+      encoding,
+      binary: encoding === null,
+      totalLines: 0,
+      startLine: 0,
+      endLine: 0,
+      content: '',
+      truncated: false,
+      longLines: 0,
+    };
+    if (encoding === null) {
+      return result;
+    }
+
+    const maxLines = Math.max(options.maxLines ?? 100, 1);
+    const maxChars = Math.max(options.maxChars ?? DEFAULT_MAX_CHARS, 1);
+    const maxLineLength = Math.max(options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH, 1);
+    const tail = options.tail && options.tail > 0 ? Math.min(options.tail, maxLines) : 0;
+    const start = Math.max(options.startLine ?? 1, 1);
+    const requestedEnd = options.endLine ?? Infinity;
+    let end = Math.min(requestedEnd, start + maxLines - 1);
+
+    const clip = (line: string) => {
+      if (line.length <= maxLineLength) return line;
+      result.longLines++;
+      return `${line.slice(0, maxLineLength)} … [${line.length - maxLineLength} more characters]`;
+    };
+
+    const input = createReadStream(fullPath, { encoding: encoding === 'utf-16le' ? 'utf16le' : encoding });
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    const selected: string[] = [];
+    let chars = 0;
+    let lineNumber = 0;
+    // Set when the loop is left before the end of the file
+    let stoppedEarly = false;
+    try {
+      for await (let line of lines) {
+        lineNumber++;
+        if (lineNumber === 1) line = line.replace(/^\uFEFF/, '');
+
+        if (tail) {
+          // Long lines are only clipped once they make it into the final tail
+          selected.push(line);
+          if (selected.length > tail) selected.shift();
+        } else if (lineNumber > end) {
+          stoppedEarly = true;
+          break;
+        } else if (lineNumber >= start) {
+          const clipped = clip(line);
+          if (selected.length > 0 && chars + clipped.length + 1 > maxChars) {
+            // Out of characters: the range ends at the previous line
+            end = lineNumber - 1;
+            stoppedEarly = true;
+            break;
+          }
+          selected.push(clipped);
+          chars += clipped.length + 1;
+        }
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+
+    if (tail) {
+      const clipped = selected.map(clip);
+      chars = clipped.reduce((total, line) => total + line.length + 1, 0);
+      // Drop the oldest lines until the tail fits
+      while (clipped.length > 1 && chars > maxChars) {
+        chars -= clipped.shift()!.length + 1;
+      }
+      result.truncated = clipped.length < selected.length || (options.tail! > tail && lineNumber > tail);
+      selected.splice(0, selected.length, ...clipped);
+      result.totalLines = lineNumber;
+    } else {
+      // Only lines cut by maxLines or maxChars count; an explicit range is what was asked for
+      result.truncated = stoppedEarly && end < requestedEnd;
+      result.totalLines = !stoppedEarly
+        ? lineNumber
+        : encoding !== 'utf-16le' && stat.size <= MAX_COUNTED_BYTES ? await countLines(fullPath) : null;
+    }
+
+    if (selected.length > 0) {
+      result.startLine = tail ? lineNumber - selected.length + 1 : start;
+      result.endLine = result.startLine + selected.length - 1;
+    }
+    result.content = selected.join('\n');
+    return result;
+  }
+
   async getFileTree(): Promise<string> {
       const files = await this.listFiles(100);
       // specific file tree representation if needed, or just list
@@ -0,0 +1,186 @@
+import { execa } from 'execa';
+
+export type GitChangeKind = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'type changed' | 'unmerged';
+
+export interface GitFileChange {
+  path: string;
+  kind: GitChangeKind;
+  /** Previous path for renames and copies */
+  from?: string;
+}
+
+export interface GitStatus {
+  /** Current branch, null when HEAD is detached */
+  branch: string | null;
+  /** Abbreviated HEAD commit, null before the first commit */
+  head: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  /** ISO 8601 author date */
+  date: string;
+  subject: string;
+}
+
+export interface GitDiff {
+  /** `git diff --stat` summary */
+  stat: string;
+  diff: string;
+  truncated: boolean;
+}
+
+const CHANGE_KINDS: Record<string, GitChangeKind> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type changed',
+};
+
+// Default cap for diff output returned to the model
+const DEFAULT_MAX_DIFF_CHARS = 20000;
+
+/**
+ * Read-only access to the git repository containing a directory
+ */
+export class GitContext {
+  private cwd: string;
+
+  constructor(cwd?: string) {
+    this.cwd = cwd || process.cwd();
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const result = await execa('git', args, {
+      cwd: this.cwd,
+      reject: false,
+      stripFinalNewline: false,
+      maxBuffer: 20 * 1024 * 1024,
+      // Never block on credential or pager prompts
+      env: { GIT_TERMINAL_PROMPT: '0', GIT_PAGER: 'cat', GIT_OPTIONAL_LOCKS: '0' },
+    });
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr?.trim() || result.shortMessage || `git ${args[0]} failed`);
+    }
+    return result.stdout;
+  }
+
+  /**
+   * Top-level directory of the repository, or null when outside a repository
+   * (or git isn't installed)
+   */
+  async getRoot(): Promise<string | null> {
+    try {
+      return (await this.git(['rev-parse', '--show-toplevel'])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async getStatus(): Promise<GitStatus> {
+    const output = await this.git(['status', '--porcelain=v2', '--branch', '-z']);
+    const status: GitStatus = {
+      branch: null,
+      head: null,
+      upstream: null,
+      ahead: 0,
+      behind: 0,
+      staged: [],
+      unstaged: [],
+      untracked: [],
+      conflicted: [],
+    };
+
+    const records = output.split('\0');
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (!record) continue;
+
+      if (record.startsWith('# ')) {
+        const [, key, ...values] = record.split(' ');
+        if (key === 'branch.oid' && values[0] !== '(initial)') status.head = values[0].slice(0, 7);
+        if (key === 'branch.head' && values[0] !== '(detached)') status.branch = values[0];
+        if (key === 'branch.upstream') status.upstream = values[0];
+        if (key === 'branch.ab') {
+          status.ahead = Math.abs(parseInt(values[0], 10));
+          status.behind = Math.abs(parseInt(values[1], 10));
+        }
+        continue;
+      }
+
+      const type = record[0];
+      if (type === '?') {
+        status.untracked.push(record.slice(2));
+      } else if (type === 'u') {
+        // u XY sub m1 m2 m3 mW h1 h2 h3 path
+        status.conflicted.push(record.split(' ').slice(10).join(' '));
+      } else if (type === '1' || type === '2') {
+        // 1 XY sub mH mI mW hH hI path
+        // 2 XY sub mH mI mW hH hI Xscore path, followed by the original path
+        const fields = record.split(' ');
+        const xy = fields[1];
+        const filePath = fields.slice(type === '1' ? 8 : 9).join(' ');
+        const from = type === '2' ? records[++i] : undefined;
+
+        if (xy[0] !== '.') status.staged.push({ path: filePath, kind: CHANGE_KINDS[xy[0]] || 'modified', from });
+        if (xy[1] !== '.') status.unstaged.push({ path: filePath, kind: CHANGE_KINDS[xy[1]] || 'modified' });
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Recent commits on HEAD, newest first, optionally only those touching a path
+   */
+  async getLog(options: { count?: number; path?: string } = {}): Promise<GitCommit[]> {
+    const args = ['log', `-n${options.count ?? 10}`, '--format=%h%x1f%an%x1f%aI%x1f%s'];
+    if (options.path) args.push('--', options.path);
+
+    let output: string;
+    try {
+      output = await this.git(args);
+    } catch (error) {
+      // A repository without commits has no log
+      if (error instanceof Error && /does not have any commits/.test(error.message)) return [];
+      throw error;
+    }
+
+    return output.split('\n').filter(Boolean).map(line => {
+      const [hash, author, date, subject] = line.split('\x1f');
+      return { hash, author, date, subject };
+    });
+  }
+
+  /**
+   * Working tree (or staged) diff, capped at maxChars
+   */
+  async getDiff(options: { staged?: boolean; path?: string; maxChars?: number } = {}): Promise<GitDiff> {
+    const args = ['diff', '--no-color', '--no-ext-diff'];
+    if (options.staged) args.push('--cached');
+    const pathArgs = options.path ? ['--', options.path] : [];
+
+    const [stat, diff] = await Promise.all([
+      this.git([...args, '--stat', ...pathArgs]),
+      this.git([...args, ...pathArgs]),
+    ]);
+
+    const maxChars = options.maxChars ?? DEFAULT_MAX_DIFF_CHARS;
+    const truncated = diff.length > maxChars;
+    return {
+      stat: stat.trimEnd(),
+      diff: truncated ? diff.slice(0, maxChars) : diff.trimEnd(),
+      truncated,
+    };
+  }
+}
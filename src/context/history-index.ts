@@ -0,0 +1,31 @@
+/**
+ * Keep the shell history recall index in session.db up to date
+ */
+
+import type { HistoryProvider } from './history.js';
+import type { SessionHistory } from './session.js';
+import type { SecretRedactor } from './redactor.js';
+
+/**
+ * Index shell history entries from the second of the last indexed command on.
+ * Timestamps have one-second resolution, so that second is read again; commands
+ * already indexed at it are left out so their counts don't go up twice.
+ * Entries without timestamps are always passed on; the index skips commands it already has.
+ */
+export async function updateShellHistoryIndex(
+  session: SessionHistory,
+  history: HistoryProvider,
+  redactor?: SecretRedactor
+): Promise<{ added: number; embedded: number }> {
+  const indexedAt = session.getShellHistoryIndexedAt(history.shell);
+  const seenAtIndexedAt = new Set(indexedAt > 0 ? session.getShellCommandsAt(history.shell, indexedAt) : []);
+  const entries = (await history.getEntries())
+    .filter(entry => !entry.timestamp || entry.timestamp >= indexedAt)
+    .map(entry => ({
+      command: redactor ? redactor.redact(entry.command, 'history') : entry.command,
+      timestamp: entry.timestamp
+    }))
+    .filter(entry => entry.timestamp !== indexedAt || !seenAtIndexedAt.has(entry.command.trim()));
+
+  return session.indexShellHistory(history.shell, entries);
+}
@@ -1,55 +1,307 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
+import type { ShellHistoryConfig } from '../config.js';
 
 export interface HistoryEntry {
+  /** Unix time in seconds, 0 when the history file doesn't record it */
   timestamp: number;
+  /** Seconds, 0 when unknown */
   duration: number;
   command: string;
 }
 
-export class ZshHistory {
-  private historyPath: string;
+export type HistoryShell = 'zsh' | 'bash' | 'fish';
 
-  constructor(historyPath?: string) {
-    this.historyPath = historyPath || process.env.HISTFILE || path.join(os.homedir(), '.zsh_history');
+export const HISTORY_SHELLS: HistoryShell[] = ['zsh', 'bash', 'fish'];
+
+/**
+ * Source of the user's shell history
+ */
+export interface HistoryProvider {
+  readonly shell: HistoryShell;
+  /** All entries, oldest first */
+  getEntries(): Promise<HistoryEntry[]>;
+  /** The most recent entries, oldest first */
+  getLastEntries(count?: number): Promise<HistoryEntry[]>;
+}
+
+export type HistorySort = 'recent' | 'frequency' | 'duration';
+
+/**
+ * Filters for searching history entries
+ */
+export interface HistoryQuery {
+  /** Unix time in seconds */
+  since?: number;
+  /** Unix time in seconds */
+  until?: number;
+  /** Case-insensitive substring, or a regular expression */
+  pattern?: string | RegExp;
+  /** Only keep the most recent occurrence of each command */
+  unique?: boolean;
+  sort?: HistorySort;
+  limit?: number;
+}
+
+export interface HistoryMatch extends HistoryEntry {
+  /** Number of times the command appears among the matches */
+  count: number;
+}
+
+/**
+ * Filter and sort history entries (oldest first for `recent`, best first otherwise).
+ * Entries without a timestamp never match a date range.
+ */
+export function queryHistory(entries: HistoryEntry[], query: HistoryQuery = {}): HistoryMatch[] {
+  const { since, until, pattern, sort = 'recent' } = query;
+  const limit = query.limit ?? entries.length;
+
+  const matches = entries.filter(entry => {
+    if ((since !== undefined || until !== undefined) && !entry.timestamp) return false;
+    if (since !== undefined && entry.timestamp < since) return false;
+    if (until !== undefined && entry.timestamp > until) return false;
+    if (pattern instanceof RegExp) return pattern.test(entry.command);
+    if (pattern) return entry.command.toLowerCase().includes(pattern.toLowerCase());
+    return true;
+  });
+
+  const counts = new Map<string, number>();
+  for (const entry of matches) {
+    counts.set(entry.command, (counts.get(entry.command) || 0) + 1);
   }
+  let results: HistoryMatch[] = matches.map(entry => ({ ...entry, count: counts.get(entry.command)! }));
 
-  async getLastEntries(count: number = 20): Promise<HistoryEntry[]> {
+  // Ranking by frequency only makes sense once per command
+  if (query.unique || sort === 'frequency') {
+    const latest = new Map<string, HistoryMatch>();
+    for (const result of results) {
+      latest.delete(result.command);
+      latest.set(result.command, result);
+    }
+    results = [...latest.values()];
+  }
+
+  switch (sort) {
+    case 'frequency':
+      return results.sort((a, b) => b.count - a.count || b.timestamp - a.timestamp).slice(0, limit);
+    case 'duration':
+      return results.sort((a, b) => b.duration - a.duration).slice(0, limit);
+    default:
+      return results.slice(-limit);
+  }
+}
+
+/**
+ * Base class for providers that parse a history file
+ */
+abstract class FileHistory implements HistoryProvider {
+  abstract readonly shell: HistoryShell;
+
+  constructor(protected historyPath: string) {}
+
+  protected abstract parse(content: Buffer): HistoryEntry[];
+
+  async getEntries(): Promise<HistoryEntry[]> {
     try {
-      const content = await fs.readFile(this.historyPath, 'utf-8');
-      const lines = content.trim().split('\n');
-      
-      const entries: HistoryEntry[] = [];
-      // Read from end
-      for (let i = lines.length - 1; i >= 0 && entries.length < count; i--) {
-        const line = lines[i];
-        const entry = this.parseLine(line);
-        if (entry) {
-          entries.unshift(entry);
-        }
-      }
-      
-      return entries;
+      const content = await fs.readFile(this.historyPath);
+      return this.parse(content);
     } catch (error) {
-      console.error('Failed to read zsh history:', error);
+      console.error(`Failed to read ${this.shell} history:`, error);
       return [];
     }
   }
 
-  private parseLine(line: string): HistoryEntry | null {
+  async getLastEntries(count: number = 20): Promise<HistoryEntry[]> {
+    const entries = await this.getEntries();
+    return entries.slice(-count);
+  }
+}
+
+// zsh escapes bytes it treats specially as Meta (0x83) followed by the byte XOR 0x20
+const ZSH_META = 0x83;
+
+/**
+ * Undo zsh's metafication of non-ASCII bytes
+ */
+export function unmetafy(content: Buffer): Buffer {
+  if (!content.includes(ZSH_META)) {
+    return content;
+  }
+
+  const result = Buffer.alloc(content.length);
+  let length = 0;
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === ZSH_META && i + 1 < content.length) {
+      result[length++] = content[++i] ^ 0x20;
+    } else {
+      result[length++] = content[i];
+    }
+  }
+  return result.subarray(0, length);
+}
+
+/**
+ * zsh history: extended (`: <start>:<duration>;<command>`) or plain lines,
+ * with multi-line commands continued by a trailing backslash
+ */
+export class ZshHistory extends FileHistory {
+  readonly shell = 'zsh';
+
+  constructor(historyPath?: string) {
+    super(historyPath || process.env.HISTFILE || path.join(os.homedir(), '.zsh_history'));
+  }
+
+  protected parse(content: Buffer): HistoryEntry[] {
+    const lines = unmetafy(content).toString('utf-8').split('\n');
+    const entries: HistoryEntry[] = [];
+
+    let pending: string | null = null;
+    for (const line of lines) {
+      pending = pending === null ? line : `${pending}\n${line}`;
+      if (pending.endsWith('\\')) {
+        pending = pending.slice(0, -1);
+        continue;
+      }
+
+      const entry = this.parseEntry(pending);
+      if (entry) entries.push(entry);
+      pending = null;
+    }
+    if (pending !== null) {
+      const entry = this.parseEntry(pending);
+      if (entry) entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  private parseEntry(text: string): HistoryEntry | null {
     // Format: : 1698212617:0;command
-    const match = line.match(/^: (\d+):(\d+);(.*)$/);
-    if (!match) {
-      // Handle legacy or non-extended lines if necessary, or just skip
+    const match = text.match(/^: (\d+):(\d+);([\s\S]*)$/);
+    if (match) {
+      return {
+        timestamp: parseInt(match[1], 10),
+        duration: parseInt(match[2], 10),
+        command: match[3]
+      };
+    }
+
+    if (!text.trim()) {
       return null;
     }
+    return { timestamp: 0, duration: 0, command: text };
+  }
+}
+
+/**
+ * bash history: one command per line, or `#<timestamp>` lines before each
+ * command when HISTTIMEFORMAT is set (then multi-line commands stay together)
+ */
+export class BashHistory extends FileHistory {
+  readonly shell = 'bash';
 
-    return {
-      timestamp: parseInt(match[1], 10),
-      duration: parseInt(match[2], 10),
-      command: match[3]
+  constructor(historyPath?: string) {
+    super(historyPath || process.env.HISTFILE || path.join(os.homedir(), '.bash_history'));
+  }
+
+  protected parse(content: Buffer): HistoryEntry[] {
+    const lines = content.toString('utf-8').split('\n');
+    const hasTimestamps = lines.some(line => /^#\d+$/.test(line));
+    const entries: HistoryEntry[] = [];
+
+    if (!hasTimestamps) {
+      for (const line of lines) {
+        if (line.trim()) entries.push({ timestamp: 0, duration: 0, command: line });
+      }
+      return entries;
+    }
+
+    let current: HistoryEntry | null = null;
+    const flush = () => {
+      if (current && current.command.trim()) entries.push(current);
+      current = null;
     };
+
+    for (const line of lines) {
+      const marker = line.match(/^#(\d+)$/);
+      if (marker) {
+        flush();
+        current = { timestamp: parseInt(marker[1], 10), duration: 0, command: '' };
+      } else if (current) {
+        current.command = current.command ? `${current.command}\n${line}` : line;
+      } else if (line.trim()) {
+        // Lines written before HISTTIMEFORMAT was enabled
+        entries.push({ timestamp: 0, duration: 0, command: line });
+      }
+    }
+    flush();
+
+    // Trailing blank lines belong to the file, not the last command
+    for (const entry of entries) {
+      entry.command = entry.command.replace(/\n+$/, '');
+    }
+    return entries;
+  }
+}
+
+/**
+ * fish history: YAML-like `- cmd:` / `when:` records
+ */
+export class FishHistory extends FileHistory {
+  readonly shell = 'fish';
+
+  constructor(historyPath?: string) {
+    const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+    super(historyPath || path.join(dataHome, 'fish', 'fish_history'));
+  }
+
+  protected parse(content: Buffer): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+
+    for (const line of content.toString('utf-8').split('\n')) {
+      const cmd = line.match(/^- cmd: (.*)$/);
+      if (cmd) {
+        entries.push({ timestamp: 0, duration: 0, command: unescapeFish(cmd[1]) });
+        continue;
+      }
+
+      const when = line.match(/^\s+when: (\d+)$/);
+      if (when && entries.length > 0) {
+        entries[entries.length - 1].timestamp = parseInt(when[1], 10);
+      }
+    }
+
+    return entries;
   }
 }
 
+/**
+ * fish stores newlines as `\n` and backslashes as `\\`
+ */
+function unescapeFish(value: string): string {
+  return value.replace(/\\(\\|n)/g, (_, char) => (char === 'n' ? '\n' : '\\'));
+}
+
+/**
+ * Detect the shell from $SHELL, defaulting to zsh
+ */
+export function detectHistoryShell(): HistoryShell {
+  const name = path.basename(process.env.SHELL || '');
+  return (HISTORY_SHELLS as string[]).includes(name) ? name as HistoryShell : 'zsh';
+}
+
+/**
+ * Create the history provider for the configured shell (or $SHELL)
+ */
+export function createHistoryProvider(config: ShellHistoryConfig = {}): HistoryProvider {
+  const historyPath = config.path?.replace(/^~(?=$|\/)/, os.homedir());
+  switch (config.shell || detectHistoryShell()) {
+    case 'bash':
+      return new BashHistory(historyPath);
+    case 'fish':
+      return new FishHistory(historyPath);
+    default:
+      return new ZshHistory(historyPath);
+  }
+}
@@ -0,0 +1,370 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+export type ProjectKind = 'node' | 'make' | 'rust' | 'python' | 'go' | 'docker-compose' | 'just';
+
+/**
+ * A script, target, recipe or service defined by a manifest
+ */
+export interface ProjectTask {
+  name: string;
+  /** What the task runs, when the manifest says (package.json scripts) */
+  command?: string;
+}
+
+export interface ProjectEcosystem {
+  kind: ProjectKind;
+  /** Manifest file the ecosystem was detected from */
+  manifest: string;
+  name?: string;
+  /** Package manager or tool used to run things (pnpm, poetry, cargo, ...) */
+  tool: string;
+  tasks: ProjectTask[];
+  /** How to run one of the tasks, with `<task>` as placeholder */
+  runTask?: string;
+  /** Common commands for this ecosystem (install, build, test) */
+  commands: string[];
+}
+
+export interface ProjectInfo {
+  /** Directory containing the manifests */
+  root: string;
+  ecosystems: ProjectEcosystem[];
+}
+
+// Tasks listed per ecosystem in the one-line context summary
+const SUMMARY_TASK_LIMIT = 8;
+
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yml', 'docker-compose.yaml'];
+const MAKEFILES = ['GNUmakefile', 'makefile', 'Makefile'];
+const JUSTFILES = ['justfile', 'Justfile', '.justfile'];
+
+async function readText(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `key = "value"` pairs of one TOML table (enough for names and script tables)
+ */
+export function readTomlTable(content: string, table: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  let inTable = false;
+
+  for (const line of content.split('\n')) {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*(#.*)?$/);
+    if (header) {
+      inTable = header[1].trim() === table;
+      continue;
+    }
+    if (!inTable) continue;
+
+    const pair = line.match(/^\s*("?[\w.-]+"?)\s*=\s*(.+?)\s*$/);
+    if (pair) {
+      values[pair[1].replace(/"/g, '')] = pair[2].replace(/^["']|["']$/g, '');
+    }
+  }
+  return values;
+}
+
+function hasTomlTable(content: string, table: string): boolean {
+  return content.split('\n').some(line => line.trim().replace(/\s+/g, '') === `[${table}]`);
+}
+
+/**
+ * Targets of a Makefile, skipping special (.PHONY), pattern and variable rules
+ */
+export function parseMakeTargets(content: string): string[] {
+  const targets = new Set<string>();
+  for (const line of content.split('\n')) {
+    const match = line.match(/^([A-Za-z0-9_][A-Za-z0-9_./-]*(?:\s+[A-Za-z0-9_][A-Za-z0-9_./-]*)*)\s*:(?![:=])/);
+    if (!match) continue;
+    for (const target of match[1].split(/\s+/)) {
+      targets.add(target);
+    }
+  }
+  return [...targets];
+}
+
+/**
+ * Recipes of a justfile (private `_` recipes are skipped)
+ */
+export function parseJustRecipes(content: string): string[] {
+  const recipes: string[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.match(/^@?([A-Za-z][\w-]*)(?:\s+[^:]*)?:(?!=)/);
+    if (match && !['set', 'alias', 'export', 'import', 'mod'].includes(match[1])) {
+      recipes.push(match[1]);
+    }
+  }
+  return recipes;
+}
+
+/**
+ * Service names from the top-level `services:` map of a compose file
+ */
+export function parseComposeServices(content: string): string[] {
+  const services: string[] = [];
+  let indent: number | null = null;
+  let inServices = false;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    if (/^\S/.test(line)) {
+      inServices = /^services:\s*$/.test(line);
+      indent = null;
+      continue;
+    }
+    if (!inServices) continue;
+
+    const match = line.match(/^(\s+)["']?([\w.-]+)["']?:/);
+    if (!match) continue;
+    indent ??= match[1].length;
+    if (match[1].length === indent) services.push(match[2]);
+  }
+  return services;
+}
+
+/**
+ * Detects project ecosystems and their runnable tasks from manifest files
+ */
+export class ProjectInspector {
+  private cwd: string;
+
+  constructor(cwd?: string) {
+    this.cwd = cwd || process.cwd();
+  }
+
+  /**
+   * Inspect the current directory, or the nearest parent with a manifest
+   * (stopping at the home directory)
+   */
+  async inspect(): Promise<ProjectInfo | null> {
+    const home = os.homedir();
+    let dir = this.cwd;
+
+    while (true) {
+      const ecosystems = await this.inspectDirectory(dir);
+      if (ecosystems.length > 0) {
+        return { root: dir, ecosystems };
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir || parent === home || dir === home) return null;
+      dir = parent;
+    }
+  }
+
+  private async inspectDirectory(dir: string): Promise<ProjectEcosystem[]> {
+    const detected = await Promise.all([
+      this.detectNode(dir),
+      this.detectMake(dir),
+      this.detectJust(dir),
+      this.detectRust(dir),
+      this.detectPython(dir),
+      this.detectGo(dir),
+      this.detectCompose(dir),
+    ]);
+    return detected.filter((e): e is ProjectEcosystem => e !== null);
+  }
+
+  private async detectNode(dir: string): Promise<ProjectEcosystem | null> {
+    const content = await readText(path.join(dir, 'package.json'));
+    if (content === null) return null;
+
+    let pkg: { name?: string; scripts?: Record<string, string>; packageManager?: string };
+    try {
+      pkg = JSON.parse(content);
+    } catch {
+      pkg = {};
+    }
+
+    let tool = pkg.packageManager?.split('@')[0];
+    if (!tool) {
+      const lockfiles: [string, string][] = [
+        ['pnpm-lock.yaml', 'pnpm'],
+        ['yarn.lock', 'yarn'],
+        ['bun.lockb', 'bun'],
+        ['bun.lock', 'bun'],
+        ['package-lock.json', 'npm'],
+      ];
+      for (const [lockfile, manager] of lockfiles) {
+        if (await exists(path.join(dir, lockfile))) {
+          tool = manager;
+          break;
+        }
+      }
+    }
+    tool ||= 'npm';
+
+    return {
+      kind: 'node',
+      manifest: 'package.json',
+      name: pkg.name,
+      tool,
+      tasks: Object.entries(pkg.scripts || {}).map(([name, command]) => ({ name, command })),
+      runTask: `${tool} run <task>`,
+      commands: [`${tool} install`],
+    };
+  }
+
+  private async detectMake(dir: string): Promise<ProjectEcosystem | null> {
+    for (const file of MAKEFILES) {
+      const content = await readText(path.join(dir, file));
+      if (content === null) continue;
+      return {
+        kind: 'make',
+        manifest: file,
+        tool: 'make',
+        tasks: parseMakeTargets(content).map(name => ({ name })),
+        runTask: 'make <task>',
+        commands: [],
+      };
+    }
+    return null;
+  }
+
+  private async detectJust(dir: string): Promise<ProjectEcosystem | null> {
+    for (const file of JUSTFILES) {
+      const content = await readText(path.join(dir, file));
+      if (content === null) continue;
+      return {
+        kind: 'just',
+        manifest: file,
+        tool: 'just',
+        tasks: parseJustRecipes(content).map(name => ({ name })),
+        runTask: 'just <task>',
+        commands: [],
+      };
+    }
+    return null;
+  }
+
+  private async detectRust(dir: string): Promise<ProjectEcosystem | null> {
+    const content = await readText(path.join(dir, 'Cargo.toml'));
+    if (content === null) return null;
+
+    const workspace = hasTomlTable(content, 'workspace');
+    return {
+      kind: 'rust',
+      manifest: 'Cargo.toml',
+      name: readTomlTable(content, 'package').name,
+      tool: 'cargo',
+      tasks: [],
+      commands: ['cargo build', 'cargo test', workspace ? 'cargo run -p <crate>' : 'cargo run'],
+    };
+  }
+
+  private async detectPython(dir: string): Promise<ProjectEcosystem | null> {
+    const content = await readText(path.join(dir, 'pyproject.toml'));
+    const hasRequirements = await exists(path.join(dir, 'requirements.txt'));
+    if (content === null && !hasRequirements) return null;
+
+    const pyproject = content || '';
+    let tool = 'pip';
+    if (await exists(path.join(dir, 'uv.lock'))) {
+      tool = 'uv';
+    } else if (hasTomlTable(pyproject, 'tool.poetry') || await exists(path.join(dir, 'poetry.lock'))) {
+      tool = 'poetry';
+    } else if (await exists(path.join(dir, 'pdm.lock'))) {
+      tool = 'pdm';
+    } else if (await exists(path.join(dir, 'Pipfile'))) {
+      tool = 'pipenv';
+    }
+
+    const scripts = {
+      ...readTomlTable(pyproject, 'project.scripts'),
+      ...readTomlTable(pyproject, 'tool.poetry.scripts'),
+    };
+    const run = tool === 'pip' ? '' : `${tool} run `;
+    const install: Record<string, string> = {
+      uv: 'uv sync',
+      poetry: 'poetry install',
+      pdm: 'pdm install',
+      pipenv: 'pipenv install',
+      pip: content !== null ? 'pip install -e .' : 'pip install -r requirements.txt',
+    };
+
+    return {
+      kind: 'python',
+      manifest: content !== null ? 'pyproject.toml' : 'requirements.txt',
+      name: readTomlTable(pyproject, 'project').name || readTomlTable(pyproject, 'tool.poetry').name,
+      tool,
+      tasks: Object.entries(scripts).map(([name, command]) => ({ name, command })),
+      runTask: `${run}<task>`,
+      commands: [install[tool], `${run}pytest`],
+    };
+  }
+
+  private async detectGo(dir: string): Promise<ProjectEcosystem | null> {
+    const content = await readText(path.join(dir, 'go.mod'));
+    if (content === null) return null;
+
+    return {
+      kind: 'go',
+      manifest: 'go.mod',
+      name: content.match(/^module\s+(\S+)/m)?.[1],
+      tool: 'go',
+      tasks: [],
+      commands: ['go build ./...', 'go test ./...'],
+    };
+  }
+
+  private async detectCompose(dir: string): Promise<ProjectEcosystem | null> {
+    for (const file of COMPOSE_FILES) {
+      const content = await readText(path.join(dir, file));
+      if (content === null) continue;
+      return {
+        kind: 'docker-compose',
+        manifest: file,
+        tool: 'docker compose',
+        tasks: parseComposeServices(content).map(name => ({ name })),
+        runTask: 'docker compose up -d <task>',
+        commands: ['docker compose up -d', 'docker compose logs -f'],
+      };
+    }
+    return null;
+  }
+}
+
+/**
+ * One-line summary for the pre-loaded context, e.g.
+ * `node (pnpm; scripts: build, test) · make (targets: build, clean)`
+ */
+export function formatProjectSummary(info: ProjectInfo): string {
+  const taskLabel: Partial<Record<ProjectKind, string>> = {
+    node: 'scripts',
+    make: 'targets',
+    just: 'recipes',
+    python: 'scripts',
+    'docker-compose': 'services',
+  };
+
+  return info.ecosystems.map(e => {
+    const details: string[] = [];
+    // The package manager matters for node and python; other tools follow from the kind
+    if (e.kind === 'node' || e.kind === 'python') {
+      details.push(e.tool);
+    }
+    if (e.tasks.length > 0) {
+      const names = e.tasks.slice(0, SUMMARY_TASK_LIMIT).map(t => t.name);
+      if (e.tasks.length > SUMMARY_TASK_LIMIT) names.push('...');
+      details.push(`${taskLabel[e.kind] || 'tasks'}: ${names.join(', ')}`);
+    }
+    return details.length > 0 ? `${e.kind} (${details.join('; ')})` : e.kind;
+  }).join(' · ');
+}
@@ -0,0 +1,165 @@
+/**
+ * Secret redaction for text sent to the model and stored in session.db.
+ * Secrets are replaced with `[REDACTED:<kind>]` placeholders.
+ */
+
+import type { RedactionConfig } from '../config.js';
+
+interface SecretDetector {
+  kind: string;
+  pattern: RegExp;
+  /** Replace only part of the match (e.g. keep the variable name of an assignment) */
+  replace?: (placeholder: string, ...groups: string[]) => string;
+}
+
+// Variable names that usually hold secrets
+const SECRET_NAME = String.raw`[\w.-]*(?:password|passwd|passphrase|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[\w.-]*`;
+
+// High-entropy tokens: long runs of base64/hex-like characters
+const ENTROPY_MIN_LENGTH = 32;
+const ENTROPY_THRESHOLD = 4.3;
+
+const DETECTORS: SecretDetector[] = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+  },
+  {
+    kind: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g
+  },
+  {
+    kind: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g
+  },
+  {
+    kind: 'slack-token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g
+  },
+  {
+    kind: 'api-key',
+    pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|[rs]k_(?:live|test)_[A-Za-z0-9]{16,})/g
+  },
+  {
+    kind: 'url-credentials',
+    pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)(?!\[REDACTED)([^\s@/]+)(@)/gi,
+    replace: (placeholder, prefix, _password, at) => `${prefix}${placeholder}${at}`
+  },
+  {
+    // KEY=value (shell, .env, ini); variable references like $TOKEN are left alone
+    kind: 'assignment',
+    pattern: new RegExp(String.raw`(\b${SECRET_NAME}=)(?![$\[])("[^"\n]*"|'[^'\n]*'|[^\s"'\x60;&|]{4,})`, 'gi'),
+    replace: (placeholder, prefix) => `${prefix}${placeholder}`
+  },
+  {
+    // key: "value" / key = 'value' (JSON, YAML, code)
+    kind: 'assignment',
+    pattern: new RegExp(String.raw`(\b${SECRET_NAME}["']?\s*[:=]\s*)(["'])(?!\[REDACTED)([^"'\n]{4,})\2`, 'gi'),
+    replace: (placeholder, prefix, quote) => `${prefix}${quote}${placeholder}${quote}`
+  },
+];
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export class SecretRedactor {
+  private enabled: boolean;
+  private customPatterns: RegExp[] = [];
+  private counts: Record<string, number> = {};
+
+  constructor(config: RedactionConfig = {}) {
+    this.enabled = config.enabled !== false;
+
+    for (const pattern of config.patterns || []) {
+      try {
+        this.customPatterns.push(new RegExp(pattern, 'g'));
+      } catch {
+        console.error(`[redact] Ignoring invalid pattern in redaction config: ${pattern}`);
+      }
+    }
+  }
+
+  /**
+   * Redact secrets in text. `source` groups the counts reported in --verbose.
+   */
+  redact(text: string, source = 'other'): string {
+    if (!this.enabled || !text) {
+      return text;
+    }
+
+    let count = 0;
+    const placeholder = (kind: string) => {
+      count++;
+      return `[REDACTED:${kind}]`;
+    };
+
+    let result = text;
+    for (const detector of DETECTORS) {
+      result = result.replace(detector.pattern, (...args) => {
+        const groups = args.slice(1, -2) as string[];
+        return detector.replace
+          ? detector.replace(placeholder(detector.kind), ...groups)
+          : placeholder(detector.kind);
+      });
+    }
+
+    for (const pattern of this.customPatterns) {
+      result = result.replace(pattern, () => placeholder('custom'));
+    }
+
+    result = result.replace(new RegExp(`[A-Za-z0-9+=_-]{${ENTROPY_MIN_LENGTH},}`, 'g'), token => {
+      const looksRandom = /[0-9]/.test(token) && /[A-Za-z]/.test(token) && shannonEntropy(token) >= ENTROPY_THRESHOLD;
+      return looksRandom ? placeholder('high-entropy') : token;
+    });
+
+    if (count > 0) {
+      this.counts[source] = (this.counts[source] || 0) + count;
+    }
+    return result;
+  }
+
+  /**
+   * Redact every string inside a JSON-like value (e.g. AI SDK messages)
+   */
+  redactValue<T>(value: T, source = 'other'): T {
+    if (typeof value === 'string') {
+      return this.redact(value, source) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, source)) as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, source)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redaction counts by source since the last call, then reset
+   */
+  takeCounts(): Record<string, number> {
+    const counts = this.counts;
+    this.counts = {};
+    return counts;
+  }
+}
@@ -0,0 +1,171 @@
+import { spawn } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import readline from 'node:readline';
+import { globbyStream } from 'globby';
+import { IGNORED_PATTERNS, isContainedGlob, isWithinDir } from './files.js';
+
+export interface SearchMatch {
+  /** Path relative to the search root */
+  file: string;
+  line: number;
+  text: string;
+}
+
+export interface SearchOptions {
+  /** Only search files matching this glob (e.g. `*.ts`, `src/**`) */
+  glob?: string;
+  maxResults?: number;
+  ignoreCase?: boolean;
+}
+
+export interface ProjectSearchResult {
+  matches: SearchMatch[];
+  /** More matches exist beyond maxResults */
+  truncated: boolean;
+  engine: 'ripgrep' | 'js';
+}
+
+// Matched lines are cut to this length so minified files don't flood the output
+const MAX_LINE_LENGTH = 300;
+
+// The JS fallback skips files larger than this (ripgrep handles them fine)
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+function truncateLine(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_LINE_LENGTH ? `${trimmed.slice(0, MAX_LINE_LENGTH)}...` : trimmed;
+}
+
+/**
+ * Search file contents in a project, respecting .gitignore.
+ * Uses ripgrep when available, otherwise streams files in JS.
+ */
+export class ProjectSearch {
+  private cwd: string;
+  private useRipgrep: boolean;
+
+  constructor(cwd?: string, options: { ripgrep?: boolean } = {}) {
+    this.cwd = cwd || process.cwd();
+    this.useRipgrep = options.ripgrep ?? false;
+  }
+
+  /**
+   * Find lines matching a regular expression. Throws on invalid patterns and on
+   * globs reaching outside the search root.
+   */
+  async search(pattern: string, options: SearchOptions = {}): Promise<ProjectSearchResult> {
+    if (options.glob && !isContainedGlob(options.glob)) {
+      throw new Error(`Glob must be relative to the project without \`..\`: ${options.glob}`);
+    }
+    const maxResults = options.maxResults ?? 50;
+    return this.useRipgrep
+      ? this.searchRipgrep(pattern, options, maxResults)
+      : this.searchJs(pattern, options, maxResults);
+  }
+
+  private searchRipgrep(pattern: string, options: SearchOptions, maxResults: number): Promise<ProjectSearchResult> {
+    const args = ['--line-number', '--no-heading', '--with-filename', '--null', '--color', 'never'];
+    if (options.ignoreCase) args.push('--ignore-case');
+    if (options.glob) args.push('--glob', options.glob);
+    for (const ignored of IGNORED_PATTERNS) {
+      args.push('--glob', `!${ignored.replace(/\/\*\*$/, '')}`);
+    }
+    args.push('--regexp', pattern, '--', '.');
+
+    return new Promise((resolve, reject) => {
+      const rg = spawn('rg', args, { cwd: this.cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+      const matches: SearchMatch[] = [];
+      let truncated = false;
+      let stderr = '';
+
+      rg.stderr.on('data', chunk => {
+        stderr += chunk;
+      });
+
+      const lines = readline.createInterface({ input: rg.stdout });
+      lines.on('line', line => {
+        if (truncated) return;
+        // With --null: <file>\0<line>:<text>
+        const separator = line.indexOf('\0');
+        const rest = line.slice(separator + 1);
+        const colon = rest.indexOf(':');
+        if (separator < 0 || colon < 0) return;
+
+        if (matches.length >= maxResults) {
+          truncated = true;
+          rg.kill();
+          return;
+        }
+        matches.push({
+          file: line.slice(0, separator).replace(/^\.\//, ''),
+          line: parseInt(rest.slice(0, colon), 10),
+          text: truncateLine(rest.slice(colon + 1)),
+        });
+      });
+
+      rg.on('error', reject);
+      rg.on('close', code => {
+        // 1 means no matches, 2 with matches means some files couldn't be read;
+        // a kill after enough matches is expected
+        if (code === 0 || code === 1 || truncated || matches.length > 0) {
+          resolve({ matches, truncated, engine: 'ripgrep' });
+        } else {
+          reject(new Error(stderr.trim() || `rg exited with code ${code}`));
+        }
+      });
+    });
+  }
+
+  private async searchJs(pattern: string, options: SearchOptions, maxResults: number): Promise<ProjectSearchResult> {
+    const regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+    const matches: SearchMatch[] = [];
+
+    const files = globbyStream([options.glob || '**/*'], {
+      cwd: this.cwd,
+      gitignore: true,
+      onlyFiles: true,
+      // Like ripgrep, `*.ts` matches at any depth
+      baseNameMatch: true,
+      ignore: IGNORED_PATTERNS,
+    });
+
+    for await (const entry of files) {
+      const file = entry.toString();
+      const fullPath = path.resolve(this.cwd, file);
+      if (!isWithinDir(this.cwd, fullPath)) continue;
+      try {
+        const stat = await fs.stat(fullPath);
+        if (stat.size > MAX_FILE_SIZE) continue;
+      } catch {
+        continue;
+      }
+
+      const input = createReadStream(fullPath, { encoding: 'utf-8' });
+      const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+      let lineNumber = 0;
+      try {
+        for await (const line of lines) {
+          lineNumber++;
+          // NUL bytes mean a binary file
+          if (line.includes('\0')) break;
+          if (!regex.test(line)) continue;
+
+          if (matches.length >= maxResults) {
+            return { matches, truncated: true, engine: 'js' };
+          }
+          matches.push({ file, line: lineNumber, text: truncateLine(line) });
+        }
+      } catch {
+        // Unreadable file - skip it
+      } finally {
+        lines.close();
+        input.destroy();
+      }
+    }
+
+    return { matches, truncated: false, engine: 'js' };
+  }
+}
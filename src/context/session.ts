@@ -2,8 +2,8 @@ import Database from 'better-sqlite3';
 import path from 'node:path';
 import os from 'node:os';
 import fs from 'node:fs';
-import * as sqliteVss from 'sqlite-vss';
-import { getEmbedding, getEmbeddingDimension } from '../llm/embedding.js';
+import { loadSqliteVss } from './vss.js';
+import { getEmbedding, getEmbeddings, getEmbeddingDimension } from '../llm/embedding.js';
 
 export interface SessionEntry {
   id: number;
@@ -11,6 +11,54 @@ export interface SessionEntry {
   response: string;
   timestamp: number;
   cwd: string;
+  exit_code?: number | null;
+  conversation_id?: string | null;
+  model?: string | null;
+  /** Syntax check of the suggested code: ok, warnings, errors or skipped */
+  validation?: string | null;
+}
+
+/**
+ * Optional metadata stored alongside an entry
+ */
+export interface EntryMetadata {
+  conversationId?: string;
+  model?: string;
+}
+
+/**
+ * Filters for listing, searching and deleting entries.
+ * Timestamps are in milliseconds; model matches as a substring.
+ */
+export interface HistoryFilter {
+  cwd?: string;
+  since?: number;
+  until?: number;
+  model?: string;
+}
+
+/**
+ * Portable entry shape used for export/import (ids are local to each database)
+ */
+export type PortableEntry = Omit<SessionEntry, 'id'>;
+
+// Texts embedded per request when importing entries or indexing shell history
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  cwd: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A conversation message as stored in session.db (content is JSON-serialisable)
+ */
+export interface StoredMessage {
+  role: string;
+  content: unknown;
 }
 
 export interface SearchResult extends SessionEntry {
@@ -18,6 +66,54 @@ export interface SearchResult extends SessionEntry {
   source: 'fts' | 'semantic' | 'hybrid';
 }
 
+/**
+ * A shell history command indexed for recall (one row per distinct command)
+ */
+export interface ShellCommandRecord {
+  id: number;
+  shell: string;
+  command: string;
+  /** Unix time in seconds of the latest run, 0 when unknown */
+  timestamp: number;
+  /** Number of indexed runs */
+  count: number;
+}
+
+export interface ShellCommandMatch extends ShellCommandRecord {
+  score: number;
+}
+
+/**
+ * Merge FTS (BM25, lower is better) and vector (distance, lower is better) results
+ * into normalised 0-1 scores, boosting items found by both
+ */
+function mergeHybridResults<T extends { id: number; score: number }>(ftsResults: T[], semanticResults: T[], limit: number): T[] {
+  const resultMap = new Map<number, T>();
+
+  // BM25 is negative with larger magnitudes for better matches
+  const maxFtsScore = Math.max(...ftsResults.map(r => Math.abs(r.score)), 1);
+  for (const r of ftsResults) {
+    resultMap.set(r.id, { ...r, score: Math.abs(r.score) / maxFtsScore });
+  }
+
+  const maxSemanticScore = Math.max(...semanticResults.map(r => r.score), 1);
+  for (const r of semanticResults) {
+    const existing = resultMap.get(r.id);
+    const normalizedScore = 1 - (r.score / maxSemanticScore);
+
+    if (existing) {
+      // Boost items found by both methods, capping score at 1.0
+      existing.score = Math.min(1.0, (existing.score + normalizedScore) / 2 + 0.2);
+    } else {
+      resultMap.set(r.id, { ...r, score: normalizedScore });
+    }
+  }
+
+  return Array.from(resultMap.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
 export class SessionHistory {
   private db: Database.Database;
   private embeddingDimension: number;
@@ -35,28 +131,7 @@ export class SessionHistory {
   }
 
   private init() {
-    // Load sqlite-vss extension
-    // On Linux, better-sqlite3 often appends .so to the end of the path.
-    // sqlite-vss provides paths that already include .so, leading to .so.so errors.
-    try {
-      // Use the built-in load function first
-      sqliteVss.load(this.db);
-    } catch (e) {
-      if (process.platform === 'linux' && e instanceof Error && e.message.includes('.so')) {
-        // Fallback for Linux: load manually and strip .so if it exists
-        const vectorPath = (sqliteVss as any).getVectorLoadablePath?.().replace(/\.so$/, '');
-        const vssPath = (sqliteVss as any).getVssLoadablePath?.().replace(/\.so$/, '');
-        
-        if (vectorPath && vssPath) {
-          this.db.loadExtension(vectorPath);
-          this.db.loadExtension(vssPath);
-        } else {
-          throw e;
-        }
-      } else {
-        throw e;
-      }
-    }
+    loadSqliteVss(this.db);
 
     // Main history table
     this.db.exec(`
@@ -70,6 +145,13 @@ export class SessionHistory {
       CREATE INDEX IF NOT EXISTS idx_timestamp ON history(timestamp DESC);
     `);
 
+    // Columns added after the initial schema
+    this.addColumnIfMissing('history', 'exit_code', 'INTEGER');
+    this.addColumnIfMissing('history', 'conversation_id', 'TEXT');
+    this.addColumnIfMissing('history', 'model', 'TEXT');
+    this.addColumnIfMissing('history', 'validation', 'TEXT');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_conversation ON history(conversation_id)');
+
     // FTS5 virtual table for keyword search
     this.db.exec(`
       CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts5(
@@ -100,6 +182,30 @@ export class SessionHistory {
       END;
     `);
 
+    // Conversations and their full message transcripts (for --continue/--resume)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        cwd TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversations_cwd ON conversations(cwd, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages ON conversation_messages(conversation_id, id);
+    `);
+
+    // Links each stored turn to its history entry so deleting an entry removes its messages
+    this.addColumnIfMissing('conversation_messages', 'history_id', 'INTEGER');
+
     // Vector table for semantic search
     this.db.exec(`
       CREATE VIRTUAL TABLE IF NOT EXISTS history_vss USING vss0(
@@ -114,32 +220,87 @@ export class SessionHistory {
         vss_rowid INTEGER NOT NULL
       );
     `);
+
+    // Shell history commands for `hey-ai recall`; vector rowids match shell_commands ids
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS shell_commands (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        shell TEXT NOT NULL,
+        command TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        count INTEGER NOT NULL DEFAULT 1,
+        embedded INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(shell, command)
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS shell_commands_fts USING fts5(
+        command,
+        content='shell_commands',
+        content_rowid='id'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS shell_commands_ai AFTER INSERT ON shell_commands BEGIN
+        INSERT INTO shell_commands_fts(rowid, command) VALUES (new.id, new.command);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS shell_commands_ad AFTER DELETE ON shell_commands BEGIN
+        INSERT INTO shell_commands_fts(shell_commands_fts, rowid, command)
+        VALUES('delete', old.id, old.command);
+      END;
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS shell_commands_vss USING vss0(
+        embedding(${this.embeddingDimension})
+      );
+    `);
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
   }
 
-  async addEntry(prompt: string, response: string, cwd: string): Promise<number> {
+  /**
+   * Build SQL conditions (joined with AND) for a filter on the history table alias
+   */
+  private buildFilterClause(filter: HistoryFilter = {}, alias: string = 'h'): { sql: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.cwd) {
+      conditions.push(`${alias}.cwd = ?`);
+      params.push(filter.cwd);
+    }
+    if (filter.since !== undefined) {
+      conditions.push(`${alias}.timestamp >= ?`);
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push(`${alias}.timestamp <= ?`);
+      params.push(filter.until);
+    }
+    if (filter.model) {
+      conditions.push(`${alias}.model LIKE ?`);
+      params.push(`%${filter.model}%`);
+    }
+
+    return { sql: conditions.map(c => ` AND ${c}`).join(''), params };
+  }
+
+  async addEntry(prompt: string, response: string, cwd: string, metadata: EntryMetadata = {}): Promise<number> {
     // Insert into main table (triggers handle FTS)
     const stmt = this.db.prepare(
-      'INSERT INTO history (prompt, response, timestamp, cwd) VALUES (?, ?, ?, ?)'
+      'INSERT INTO history (prompt, response, timestamp, cwd, conversation_id, model) VALUES (?, ?, ?, ?, ?, ?)'
     );
-    const result = stmt.run(prompt, response, Date.now(), cwd);
+    const result = stmt.run(prompt, response, Date.now(), cwd, metadata.conversationId ?? null, metadata.model ?? null);
     const historyId = result.lastInsertRowid as number;
 
     // Generate and store embedding asynchronously
     try {
       const text = `${prompt}\n${response}`;
       const embedding = await getEmbedding(text);
-      
-      // Insert into VSS table
-      const vssStmt = this.db.prepare(
-        'INSERT INTO history_vss(rowid, embedding) VALUES (?, ?)'
-      );
-      vssStmt.run(historyId, JSON.stringify(embedding));
-      
-      // Map history ID to VSS rowid
-      const mapStmt = this.db.prepare(
-        'INSERT INTO history_embeddings (history_id, vss_rowid) VALUES (?, ?)'
-      );
-      mapStmt.run(historyId, historyId);
+      this.storeEmbedding(historyId, embedding);
     } catch (error) {
       // Embedding failures are non-fatal - keyword search still works
       console.error('Failed to generate embedding:', error);
@@ -148,43 +309,369 @@ export class SessionHistory {
     return historyId;
   }
 
-  getRecentEntries(limit: number = 10): SessionEntry[] {
+  private storeEmbedding(historyId: number, embedding: number[]) {
+    // Insert into VSS table
+    const vssStmt = this.db.prepare(
+      'INSERT INTO history_vss(rowid, embedding) VALUES (?, ?)'
+    );
+    vssStmt.run(historyId, JSON.stringify(embedding));
+    
+    // Map history ID to VSS rowid
+    const mapStmt = this.db.prepare(
+      'INSERT INTO history_embeddings (history_id, vss_rowid) VALUES (?, ?)'
+    );
+    mapStmt.run(historyId, historyId);
+  }
+
+  /**
+   * Import entries (e.g. from another machine), skipping ones already present.
+   * Inserts go through the FTS triggers; embeddings are regenerated in batches.
+   */
+  async importEntries(entries: PortableEntry[]): Promise<{ imported: number; skipped: number }> {
+    const exists = this.db.prepare(
+      'SELECT 1 FROM history WHERE timestamp = ? AND prompt = ? AND response = ?'
+    );
+    const insert = this.db.prepare(`
+      INSERT INTO history (prompt, response, timestamp, cwd, exit_code, conversation_id, model, validation)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const inserted: { id: number; text: string }[] = [];
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        if (exists.get(entry.timestamp, entry.prompt, entry.response)) continue;
+        const result = insert.run(
+          entry.prompt,
+          entry.response,
+          entry.timestamp,
+          entry.cwd || null,
+          entry.exit_code ?? null,
+          entry.conversation_id ?? null,
+          entry.model ?? null,
+          entry.validation ?? null
+        );
+        inserted.push({ id: result.lastInsertRowid as number, text: `${entry.prompt}\n${entry.response}` });
+      }
+    })();
+
+    for (let i = 0; i < inserted.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = inserted.slice(i, i + EMBEDDING_BATCH_SIZE);
+      try {
+        const embeddings = await getEmbeddings(batch.map(b => b.text));
+        this.db.transaction(() => {
+          batch.forEach((b, j) => this.storeEmbedding(b.id, embeddings[j]));
+        })();
+      } catch (error) {
+        // Embedding failures are non-fatal - keyword search still works
+        console.error('Failed to generate embeddings:', error);
+        break;
+      }
+    }
+
+    return { imported: inserted.length, skipped: entries.length - inserted.length };
+  }
+
+  /**
+   * Timestamp (unix seconds) of the newest indexed command for a shell, 0 if none
+   */
+  getShellHistoryIndexedAt(shell: string): number {
+    const row = this.db.prepare(
+      'SELECT MAX(timestamp) as timestamp FROM shell_commands WHERE shell = ?'
+    ).get(shell) as { timestamp: number | null };
+    return row.timestamp ?? 0;
+  }
+
+  /**
+   * Commands of a shell whose latest run is at exactly this timestamp
+   */
+  getShellCommandsAt(shell: string, timestamp: number): string[] {
+    const rows = this.db.prepare(
+      'SELECT command FROM shell_commands WHERE shell = ? AND timestamp = ?'
+    ).all(shell, timestamp) as { command: string }[];
+    return rows.map(row => row.command);
+  }
+
+  /**
+   * Add shell history entries to the recall index. Each distinct command is stored once;
+   * runs with a timestamp bump its count and latest run, while entries without one
+   * (plain history files) are only added if the command is new.
+   * Commands without an embedding (including earlier failures) are embedded in batches.
+   */
+  async indexShellHistory(shell: string, entries: { command: string; timestamp: number }[]): Promise<{ added: number; embedded: number }> {
+    const upsert = this.db.prepare(`
+      INSERT INTO shell_commands (shell, command, timestamp) VALUES (?, ?, ?)
+      ON CONFLICT(shell, command) DO UPDATE SET
+        count = count + 1,
+        timestamp = MAX(timestamp, excluded.timestamp)
+    `);
+    const insertIfMissing = this.db.prepare(`
+      INSERT INTO shell_commands (shell, command, timestamp) VALUES (?, ?, 0)
+      ON CONFLICT(shell, command) DO NOTHING
+    `);
+
+    const exists = this.db.prepare('SELECT 1 FROM shell_commands WHERE shell = ? AND command = ?');
+
+    let added = 0;
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        const command = entry.command.trim();
+        if (!command) continue;
+        if (!exists.get(shell, command)) added++;
+        if (entry.timestamp > 0) {
+          upsert.run(shell, command, entry.timestamp);
+        } else {
+          insertIfMissing.run(shell, command);
+        }
+      }
+    })();
+
+    const pending = this.db.prepare(
+      'SELECT id, command FROM shell_commands WHERE shell = ? AND embedded = 0 ORDER BY id'
+    ).all(shell) as { id: number; command: string }[];
+    const insertVector = this.db.prepare('INSERT INTO shell_commands_vss(rowid, embedding) VALUES (?, ?)');
+    const markEmbedded = this.db.prepare('UPDATE shell_commands SET embedded = 1 WHERE id = ?');
+
+    let embedded = 0;
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      try {
+        const embeddings = await getEmbeddings(batch.map(b => b.command));
+        this.db.transaction(() => {
+          batch.forEach((b, j) => {
+            insertVector.run(b.id, JSON.stringify(embeddings[j]));
+            markEmbedded.run(b.id);
+          });
+        })();
+        embedded += batch.length;
+      } catch (error) {
+        // Embedding failures are non-fatal - keyword search still works, and the next run retries
+        console.error('Failed to generate embeddings:', error);
+        break;
+      }
+    }
+
+    return { added, embedded };
+  }
+
+  /**
+   * Find past shell commands matching a description, combining keyword and semantic search
+   */
+  async searchShellHistory(query: string, limit: number = 10, shell?: string): Promise<ShellCommandMatch[]> {
+    const shellClause = shell ? ' AND c.shell = ?' : '';
+    const shellParams = shell ? [shell] : [];
+
+    // Any matching word counts for recall; BM25 ranks commands matching more of them higher
+    const terms = query.match(/[\p{L}\p{N}_]+/gu) || [];
+    let ftsResults: ShellCommandMatch[] = [];
+    if (terms.length > 0) {
+      const stmt = this.db.prepare(`
+        SELECT c.id, c.shell, c.command, c.timestamp, c.count, bm25(shell_commands_fts) as score
+        FROM shell_commands_fts fts
+        JOIN shell_commands c ON c.id = fts.rowid
+        WHERE shell_commands_fts MATCH ?${shellClause}
+        ORDER BY bm25(shell_commands_fts)
+        LIMIT ?
+      `);
+      ftsResults = stmt.all(terms.map(t => `"${t}"`).join(' OR '), ...shellParams, limit * 2) as ShellCommandMatch[];
+    }
+
+    let semanticResults: ShellCommandMatch[] = [];
+    try {
+      const { count } = this.db.prepare('SELECT COUNT(*) as count FROM shell_commands WHERE embedded = 1').get() as { count: number };
+      if (count > 0) {
+        const queryEmbedding = await getEmbedding(query);
+        // Filters apply after the nearest-neighbour search, so over-fetch when filtering by shell
+        const k = shell ? limit * 10 : limit * 2;
+        const stmt = this.db.prepare(`
+          SELECT c.id, c.shell, c.command, c.timestamp, c.count, vss.distance as score
+          FROM (
+            SELECT rowid, distance
+            FROM shell_commands_vss
+            WHERE vss_search(embedding, vss_search_params(?, ?))
+          ) AS vss
+          JOIN shell_commands c ON c.id = vss.rowid
+          WHERE 1 = 1${shellClause}
+          ORDER BY vss.distance
+          LIMIT ?
+        `);
+        semanticResults = stmt.all(JSON.stringify(queryEmbedding), k, ...shellParams, limit * 2) as ShellCommandMatch[];
+      }
+    } catch {
+      // Gracefully handle errors - keyword results are still returned
+    }
+
+    return mergeHybridResults(ftsResults, semanticResults, limit);
+  }
+
+  /**
+   * Record the exit code of the suggested command after the user ran it
+   */
+  setExitCode(id: number, exitCode: number) {
+    this.db.prepare('UPDATE history SET exit_code = ? WHERE id = ?').run(exitCode, id);
+  }
+
+  /**
+   * Record the outcome of the syntax check of the suggested code
+   */
+  setValidation(id: number, status: string) {
+    this.db.prepare('UPDATE history SET validation = ? WHERE id = ?').run(status, id);
+  }
+
+  /**
+   * Append one turn's messages to a conversation, creating it on first use
+   */
+  saveConversationTurn(conversationId: string, cwd: string, messages: StoredMessage[], historyId?: number) {
+    const now = Date.now();
+    const firstUser = messages.find(m => m.role === 'user');
+    const title = typeof firstUser?.content === 'string' ? firstUser.content.slice(0, 200) : '';
+
+    const upsert = this.db.prepare(`
+      INSERT INTO conversations (id, title, cwd, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at
+    `);
+    const insertMessage = this.db.prepare(
+      'INSERT INTO conversation_messages (conversation_id, role, content, timestamp, history_id) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      upsert.run(conversationId, title, cwd, now, now);
+      for (const message of messages) {
+        insertMessage.run(conversationId, message.role, JSON.stringify(message.content), now, historyId ?? null);
+      }
+    })();
+  }
+
+  /**
+   * Find a conversation by id or unique id prefix
+   */
+  getConversation(idOrPrefix: string): ConversationRecord | null {
+    const exact = this.db.prepare('SELECT * FROM conversations WHERE id = ?').get(idOrPrefix) as ConversationRecord | undefined;
+    if (exact) return exact;
+
+    const matches = this.db.prepare(
+      "SELECT * FROM conversations WHERE id LIKE ? || '%' LIMIT 2"
+    ).all(idOrPrefix) as ConversationRecord[];
+    if (matches.length > 1) {
+      throw new Error(`Conversation id "${idOrPrefix}" is ambiguous`);
+    }
+    return matches[0] ?? null;
+  }
+
+  /**
+   * Most recently updated conversation started in the given directory
+   */
+  getLatestConversation(cwd: string): ConversationRecord | null {
     const stmt = this.db.prepare(
-      'SELECT * FROM history ORDER BY timestamp DESC LIMIT ?'
+      'SELECT * FROM conversations WHERE cwd = ? ORDER BY updated_at DESC LIMIT 1'
     );
-    return stmt.all(limit) as SessionEntry[];
+    return (stmt.get(cwd) as ConversationRecord | undefined) ?? null;
+  }
+
+  getConversationMessages(conversationId: string): StoredMessage[] {
+    const rows = this.db.prepare(
+      'SELECT role, content FROM conversation_messages WHERE conversation_id = ? ORDER BY id'
+    ).all(conversationId) as { role: string; content: string }[];
+    return rows.map(r => ({ role: r.role, content: JSON.parse(r.content) }));
+  }
+
+  getRecentEntries(limit: number = 10, filter: HistoryFilter = {}): SessionEntry[] {
+    const clause = this.buildFilterClause(filter);
+    const stmt = this.db.prepare(
+      `SELECT * FROM history h WHERE 1 = 1${clause.sql} ORDER BY timestamp DESC LIMIT ?`
+    );
+    return stmt.all(...clause.params, limit) as SessionEntry[];
+  }
+
+  /**
+   * All entries matching the filter, oldest first (for export)
+   */
+  getAllEntries(filter: HistoryFilter = {}): SessionEntry[] {
+    const clause = this.buildFilterClause(filter);
+    const stmt = this.db.prepare(
+      `SELECT * FROM history h WHERE 1 = 1${clause.sql} ORDER BY timestamp ASC`
+    );
+    return stmt.all(...clause.params) as SessionEntry[];
+  }
+
+  getEntry(id: number): SessionEntry | null {
+    const stmt = this.db.prepare('SELECT * FROM history WHERE id = ?');
+    return (stmt.get(id) as SessionEntry | undefined) ?? null;
+  }
+
+  /**
+   * Delete an entry along with its embedding and conversation messages.
+   * Conversations left without messages are removed too.
+   */
+  deleteEntry(id: number): boolean {
+    const deleteOne = this.db.transaction((entryId: number) => {
+      const mapping = this.db.prepare(
+        'SELECT vss_rowid FROM history_embeddings WHERE history_id = ?'
+      ).get(entryId) as { vss_rowid: number } | undefined;
+      if (mapping) {
+        this.db.prepare('DELETE FROM history_vss WHERE rowid = ?').run(mapping.vss_rowid);
+        this.db.prepare('DELETE FROM history_embeddings WHERE history_id = ?').run(entryId);
+      }
+
+      this.db.prepare('DELETE FROM conversation_messages WHERE history_id = ?').run(entryId);
+      const result = this.db.prepare('DELETE FROM history WHERE id = ?').run(entryId);
+      this.db.exec(`
+        DELETE FROM conversations
+        WHERE id NOT IN (SELECT DISTINCT conversation_id FROM conversation_messages)
+      `);
+      return result.changes > 0;
+    });
+
+    return deleteOne(id);
+  }
+
+  /**
+   * Delete all entries matching the filter (everything if no filter is given).
+   * Returns the number of deleted entries.
+   */
+  clearEntries(filter: HistoryFilter = {}): number {
+    const clause = this.buildFilterClause(filter);
+    const ids = this.db.prepare(
+      `SELECT id FROM history h WHERE 1 = 1${clause.sql}`
+    ).all(...clause.params) as { id: number }[];
+
+    let deleted = 0;
+    for (const { id } of ids) {
+      if (this.deleteEntry(id)) deleted++;
+    }
+    return deleted;
   }
 
   /**
    * Full-text search using FTS5
    */
-  searchFTS(query: string, limit: number = 5): SearchResult[] {
+  searchFTS(query: string, limit: number = 5, filter: HistoryFilter = {}): SearchResult[] {
     // Escape special FTS5 characters and create search query
     const sanitized = query.replace(/['"*()]/g, ' ').trim();
     if (!sanitized) return [];
 
+    const clause = this.buildFilterClause(filter);
     const stmt = this.db.prepare(`
       SELECT h.*, bm25(history_fts) as score
       FROM history_fts fts
       JOIN history h ON h.id = fts.rowid
-      WHERE history_fts MATCH ?
+      WHERE history_fts MATCH ?${clause.sql}
       ORDER BY bm25(history_fts)
       LIMIT ?
     `);
     
     try {
-      const results = stmt.all(sanitized, limit) as (SessionEntry & { score: number })[];
+      const results = stmt.all(sanitized, ...clause.params, limit) as (SessionEntry & { score: number })[];
       return results.map(r => ({ ...r, source: 'fts' as const }));
     } catch {
       // FTS query syntax error - fall back to simple search
-      return this.search(query, limit).map(r => ({ ...r, score: 0, source: 'fts' as const }));
+      return this.search(query, limit, filter).map(r => ({ ...r, score: 0, source: 'fts' as const }));
     }
   }
 
   /**
    * Semantic search using embeddings
    */
-  async searchSemantic(query: string, limit: number = 5): Promise<SearchResult[]> {
+  async searchSemantic(query: string, limit: number = 5, filter: HistoryFilter = {}): Promise<SearchResult[]> {
     try {
       // Check if there are any embeddings to search
       const countStmt = this.db.prepare('SELECT COUNT(*) as count FROM history_embeddings');
@@ -195,7 +682,10 @@ export class SessionHistory {
 
       const queryEmbedding = await getEmbedding(query);
       
-      // VSS requires the limit (k) inside the vss_search function call
+      // VSS requires the limit (k) inside the vss_search function call.
+      // Filters apply after the nearest-neighbour search, so over-fetch when filtering.
+      const clause = this.buildFilterClause(filter);
+      const k = clause.params.length > 0 ? limit * 5 : limit;
       const stmt = this.db.prepare(`
         SELECT h.*, vss.distance as score
         FROM (
@@ -205,10 +695,12 @@ export class SessionHistory {
         ) AS vss
         JOIN history_embeddings he ON he.vss_rowid = vss.rowid
         JOIN history h ON h.id = he.history_id
+        WHERE 1 = 1${clause.sql}
         ORDER BY vss.distance
+        LIMIT ?
       `);
       
-      const results = stmt.all(JSON.stringify(queryEmbedding), limit) as (SessionEntry & { score: number })[];
+      const results = stmt.all(JSON.stringify(queryEmbedding), k, ...clause.params, limit) as (SessionEntry & { score: number })[];
       return results.map(r => ({ ...r, source: 'semantic' as const }));
     } catch (error) {
       // Gracefully handle errors - FTS search will still work
@@ -219,56 +711,28 @@ export class SessionHistory {
   /**
    * Hybrid search combining FTS5 and semantic search
    */
-  async searchHybrid(query: string, limit: number = 5): Promise<SearchResult[]> {
+  async searchHybrid(query: string, limit: number = 5, filter: HistoryFilter = {}): Promise<SearchResult[]> {
     // Run both searches in parallel
     const [ftsResults, semanticResults] = await Promise.all([
-      Promise.resolve(this.searchFTS(query, limit * 2)),
-      this.searchSemantic(query, limit * 2)
+      Promise.resolve(this.searchFTS(query, limit * 2, filter)),
+      this.searchSemantic(query, limit * 2, filter)
     ]);
 
-    // Merge and dedupe results
-    const resultMap = new Map<number, SearchResult>();
-    
-    // Add FTS results with normalized score
-    const maxFtsScore = Math.max(...ftsResults.map(r => Math.abs(r.score)), 1);
-    for (const r of ftsResults) {
-      resultMap.set(r.id, {
-        ...r,
-        score: 1 - (Math.abs(r.score) / maxFtsScore), // BM25 is negative, lower is better
-        source: 'hybrid'
-      });
-    }
-
-    // Merge semantic results (distance, lower is better)
-    const maxSemanticScore = Math.max(...semanticResults.map(r => r.score), 1);
-    for (const r of semanticResults) {
-      const existing = resultMap.get(r.id);
-      const normalizedScore = 1 - (r.score / maxSemanticScore);
-      
-      if (existing) {
-        // Boost items found by both methods, capping score at 1.0
-        existing.score = Math.min(1.0, (existing.score + normalizedScore) / 2 + 0.2);
-      } else {
-        resultMap.set(r.id, { ...r, score: normalizedScore, source: 'hybrid' });
-      }
-    }
-
-    // Sort by score descending and limit
-    return Array.from(resultMap.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    return mergeHybridResults(ftsResults, semanticResults, limit)
+      .map(r => ({ ...r, source: 'hybrid' as const }));
   }
 
   /**
    * Simple keyword search (fallback)
    */
-  search(query: string, limit: number = 5): SessionEntry[] {
+  search(query: string, limit: number = 5, filter: HistoryFilter = {}): SessionEntry[] {
+    const clause = this.buildFilterClause(filter);
     const stmt = this.db.prepare(`
-      SELECT * FROM history 
-      WHERE prompt LIKE ? OR response LIKE ? 
+      SELECT * FROM history h
+      WHERE (prompt LIKE ? OR response LIKE ?)${clause.sql}
       ORDER BY timestamp DESC LIMIT ?
     `);
     const searchPattern = `%${query}%`;
-    return stmt.all(searchPattern, searchPattern, limit) as SessionEntry[];
+    return stmt.all(searchPattern, searchPattern, ...clause.params, limit) as SessionEntry[];
   }
 }
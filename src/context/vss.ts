@@ -0,0 +1,29 @@
+import type Database from 'better-sqlite3';
+import * as sqliteVss from 'sqlite-vss';
+
+/**
+ * Load the sqlite-vss extension into a database
+ */
+export function loadSqliteVss(db: Database.Database) {
+  // On Linux, better-sqlite3 often appends .so to the end of the path.
+  // sqlite-vss provides paths that already include .so, leading to .so.so errors.
+  try {
+    // Use the built-in load function first
+    sqliteVss.load(db);
+  } catch (e) {
+    if (process.platform === 'linux' && e instanceof Error && e.message.includes('.so')) {
+      // Fallback for Linux: load manually and strip .so if it exists
+      const vectorPath = (sqliteVss as any).getVectorLoadablePath?.().replace(/\.so$/, '');
+      const vssPath = (sqliteVss as any).getVssLoadablePath?.().replace(/\.so$/, '');
+
+      if (vectorPath && vssPath) {
+        db.loadExtension(vectorPath);
+        db.loadExtension(vssPath);
+      } else {
+        throw e;
+      }
+    } else {
+      throw e;
+    }
+  }
+}
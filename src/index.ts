@@ -5,11 +5,311 @@ import clipboardy from 'clipboardy';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { RagEngine } from './rag/engine.js';
-import { LlmWrapper, McpToolDef, getRecommendedModels } from './llm/wrapper.js';
+import { LlmWrapper, McpToolDef, getRecommendedModels, getModelName } from './llm/wrapper.js';
+import { Conversation } from './llm/conversation.js';
+import {
+  StructuredAnswerSchema,
+  getStructuredExitCode,
+  type StructuredAnswer,
+  type StructuredResult,
+  type ToolCallRecord
+} from './llm/structured.js';
+import type { CoreMessage } from 'ai';
 import { CommandDetector } from './context/commands.js';
-import { ConfigManager } from './config.js';
+import { runInShell, getUserShell, type RunResult } from './shell/runner.js';
+import { analyzeCommandRisk, getRiskLevel, maxRiskLevel, type RiskFinding } from './shell/risk.js';
+import { checkCommandFlags, type FlagWarning } from './shell/flags.js';
+import { checkShellSyntax, formatDiagnostic, type SyntaxCheckResult, type ValidationStatus } from './shell/syntax.js';
+import { registerHistoryCommand } from './commands/history.js';
+import { registerRecallCommand } from './commands/recall.js';
+import { registerIndexCommand } from './commands/project-index.js';
+import { registerCacheCommand } from './commands/cache.js';
+import {
+  ConfigManager,
+  McpServerConfigSchema,
+  type McpServerConfig,
+  type McpStdioServerConfig,
+  type McpRemoteServerConfig,
+  type RiskPolicy,
+  type FlagCheckConfig,
+  type AppConfig
+} from './config.js';
+
+/**
+ * Parse repeated "key<sep>value" options (e.g. -e KEY=value, -H "Name: value")
+ */
+function parsePairs(pairs: string[], separator: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of pairs) {
+    const [key, ...valueParts] = pair.split(separator);
+    if (key && valueParts.length > 0) {
+      result[key.trim()] = valueParts.join(separator).trim();
+    }
+  }
+  return result;
+}
+
+async function copyToClipboard(command: string, log: Function) {
+  try {
+    await clipboardy.write(command);
+    console.log(chalk.green('\n✓ Command copied to clipboard!'));
+  } catch (e) {
+    log('Clipboard error:', e);
+  }
+}
+
+function printRiskWarning(findings: RiskFinding[]) {
+  console.log(chalk.red.bold('\n⚠  Potentially dangerous command'));
+  for (const finding of findings) {
+    const color = finding.severity === 'high' ? chalk.red : chalk.yellow;
+    console.log(color(`   • ${finding.message} [${finding.rule}]`));
+    console.log(chalk.gray(`     ${finding.command}`));
+  }
+}
+
+function printSyntaxDiagnostics(check: SyntaxCheckResult) {
+  const errors = check.status === 'errors';
+  const color = errors ? chalk.red : chalk.yellow;
+  console.log(color.bold(`\n⚠  ${errors ? 'Syntax errors' : 'Warnings'} (${check.checkedWith.join(', ')})`));
+  for (const diagnostic of check.diagnostics) {
+    console.log(color(`   • ${formatDiagnostic(diagnostic, check.dialect)}`));
+  }
+}
+
+function printFlagWarnings(warnings: FlagWarning[]) {
+  console.log(chalk.yellow.bold('\n⚠  Flag check'));
+  for (const warning of warnings) {
+    console.log(chalk.yellow(`   • ${warning.message}`));
+  }
+}
+
+/**
+ * Whether flag warnings should be sent back to the model, per the flagCheck.repair setting
+ */
+async function shouldRepairFlags(flagCheck?: FlagCheckConfig): Promise<boolean> {
+  const mode = flagCheck?.repair ?? 'ask';
+  if (mode === 'auto') return true;
+  if (mode === 'never' || !process.stdin.isTTY) return false;
+
+  const { repair } = await inquirer.prompt([{
+    type: 'confirm',
+    name: 'repair',
+    message: 'Ask the model to fix these flags?',
+    default: true
+  }]);
+  return repair;
+}
+
+/**
+ * Warn about dangerous commands and ask before they are copied or run.
+ * Returns whether the action may go ahead.
+ */
+async function confirmRiskyCommand(command: string, action: 'copy' | 'run', riskPolicy?: RiskPolicy): Promise<boolean> {
+  const findings = analyzeCommandRisk(command, riskPolicy);
+  if (findings.length === 0) {
+    return true;
+  }
+
+  printRiskWarning(findings);
+  if (!process.stdin.isTTY) {
+    console.log(chalk.yellow(`\nNot ${action === 'copy' ? 'copying' : 'running'} it without confirmation.`));
+    return false;
+  }
+
+  const { confirmed } = await inquirer.prompt([{
+    type: 'confirm',
+    name: 'confirmed',
+    message: action === 'copy' ? 'Copy it to the clipboard anyway?' : 'Run it anyway?',
+    default: false
+  }]);
+  return confirmed;
+}
+
+/**
+ * Ask the user what to do with the suggested command: [r]un, [c]opy, [e]dit or [s]kip.
+ * Returns the command and its result if it was run.
+ */
+async function handleCommandAction(command: string, options: any, log: Function, riskPolicy?: RiskPolicy): Promise<{ command: string; result: RunResult } | null> {
+  let current = command;
+
+  while (true) {
+    const { action } = await inquirer.prompt([{
+      type: 'expand',
+      name: 'action',
+      message: 'Command:',
+      default: options.run ? 'r' : 'c',
+      choices: [
+        { key: 'r', name: 'Run', value: 'run' },
+        { key: 'c', name: 'Copy to clipboard', value: 'copy' },
+        { key: 'e', name: 'Edit', value: 'edit' },
+        { key: 's', name: 'Skip', value: 'skip' }
+      ]
+    }]);
+
+    if (action === 'edit') {
+      const { edited } = await inquirer.prompt([{
+        type: 'editor',
+        name: 'edited',
+        message: 'Edit command',
+        default: current,
+        postfix: '.sh'
+      }]);
+      current = edited.trim();
+      console.log(chalk.gray(`\n${current}\n`));
+      continue;
+    }
+
+    if ((action === 'copy' || action === 'run') && !(await confirmRiskyCommand(current, action, riskPolicy))) {
+      continue;
+    }
+
+    if (action === 'copy') {
+      await copyToClipboard(current, log);
+    }
+
+    if (action !== 'run') {
+      return null;
+    }
+
+    console.log(chalk.gray(`\n$ Running in ${getUserShell()}...\n`));
+    const result = await runInShell(current);
+    const status = result.exitCode === 0
+      ? chalk.green('✓ exited with 0')
+      : chalk.red(`✗ exited with ${result.exitCode}`);
+    console.log(chalk.gray(`\n${status} in ${result.durationMs}ms`));
+    return { command: current, result };
+  }
+}
+
+/**
+ * Per-invocation state shared across queries
+ */
+interface QuerySession {
+  interactive: boolean;
+  conversation?: Conversation;
+  /** Set in JSON mode to tell "no command produced" apart from success */
+  exitCode?: number;
+}
+
+/**
+ * A fenced code block from a response; language is zsh, bash, sh or unset
+ */
+interface CodeBlock {
+  code: string;
+  language?: string;
+}
+
+function extractCodeBlocks(response: string): CodeBlock[] {
+  const codeBlockRegex = /```(zsh|bash|sh)?\n([\s\S]*?)\n```/g;
+  const blocks: CodeBlock[] = [];
+  let match;
+
+  while ((match = codeBlockRegex.exec(response)) !== null) {
+    blocks.push({ code: match[2].trim(), language: match[1] });
+  }
+  return blocks;
+}
+
+/**
+ * Repair rounds used so far for one query, and the latest syntax check result
+ */
+interface CodeReviewState {
+  syntaxRepairs: number;
+  flagsRepaired: boolean;
+  validation?: ValidationStatus;
+}
+
+/**
+ * Check the suggested block's syntax and flags and show what is wrong.
+ * Returns a follow-up prompt asking the model for a fix while repair rounds are
+ * left, or null when the block is accepted.
+ */
+async function reviewSuggestedCode(block: CodeBlock, config: AppConfig, rag: RagEngine, state: CodeReviewState, log: Function): Promise<string | null> {
+  // Catch broken code before it is pasted or run, and let the model fix syntax errors
+  if (config.syntaxCheck?.enabled !== false) {
+    const check = await checkShellSyntax(block.code, block.language);
+    state.validation = check.status;
+    log(`Syntax check: ${check.status}${check.checkedWith.length > 0 ? ` (${check.checkedWith.join(', ')})` : ''}`);
+
+    if (check.diagnostics.length > 0) {
+      printSyntaxDiagnostics(check);
+    }
+
+    const maxRepairs = config.syntaxCheck?.maxRepairs ?? 2;
+    if (check.status === 'errors') {
+      if (state.syntaxRepairs < maxRepairs) {
+        state.syntaxRepairs++;
+        console.log(chalk.gray(`\nAsking the model to fix the syntax (attempt ${state.syntaxRepairs} of ${maxRepairs})...`));
+        return `The code block you suggested doesn't pass \`${check.checkedWith.join('` / `')}\`:\n\n` +
+          `${check.diagnostics.map(diagnostic => `- ${formatDiagnostic(diagnostic, check.dialect)}`).join('\n')}\n\n` +
+          `Please provide a corrected version of the whole block.`;
+      }
+      if (maxRepairs > 0) {
+        console.log(chalk.yellow(`\nThe code still has syntax errors after ${maxRepairs} attempt${maxRepairs === 1 ? '' : 's'} to fix it.`));
+      }
+    }
+  }
+
+  // Catch invented or wrong-platform flags before the command is copied or run.
+  // Only man, tldr and cached docs: binaries named in model output are not run for --help.
+  if (config.flagCheck?.enabled !== false) {
+    const flagWarnings = await checkCommandFlags(block.code, command => rag.getCommandDocs(command, { runHelp: false }));
+    if (flagWarnings.length > 0) {
+      printFlagWarnings(flagWarnings);
+
+      if (!state.flagsRepaired && await shouldRepairFlags(config.flagCheck)) {
+        state.flagsRepaired = true;
+        return `The code block you suggested uses flags that don't match the locally installed tools' documentation:\n\n` +
+          `${flagWarnings.map(warning => `- ${warning.message}`).join('\n')}\n\n` +
+          `Please provide a corrected version of the whole block. Check the flags with get_command_docs if unsure.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * JSON mode keeps stdout machine-readable: no decoration, prompts or clipboard
+ */
+function isJsonOutput(options: any): boolean {
+  return options.format === 'json';
+}
+
+/**
+ * Pick the conversation for this invocation: --resume <id>, --continue (latest in cwd) or a new one.
+ * Stored messages are replayed so the model sees the full previous exchange.
+ */
+function resolveConversation(options: any, rag: RagEngine, tokenBudget?: number): Conversation {
+  const notify = isJsonOutput(options) ? console.error : console.log;
+  let record = null;
+
+  if (options.resume) {
+    record = rag.session.getConversation(options.resume);
+    if (!record) {
+      throw new Error(`Conversation "${options.resume}" not found`);
+    }
+  } else if (options.continue) {
+    record = rag.session.getLatestConversation(process.cwd());
+    if (!record) {
+      notify(chalk.gray('No previous conversation in this directory, starting a new one.'));
+    }
+  }
+
+  if (!record) {
+    return new Conversation(tokenBudget);
+  }
+
+  notify(chalk.gray(`Continuing conversation ${record.id.slice(0, 8)}: ${record.title}`));
+  const messages = rag.session.getConversationMessages(record.id) as CoreMessage[];
+  return new Conversation(tokenBudget, record.id, messages);
+}
+
+async function processQuery(query: string, options: any, rag: RagEngine, llm: LlmWrapper, log: Function, session: QuerySession = { interactive: false }): Promise<string> {
+  const jsonOutput = isJsonOutput(options);
+  const toolCalls: ToolCallRecord[] = [];
+  let modelName = getModelName(options.model);
 
-async function processQuery(query: string, options: any, rag: RagEngine, llm: LlmWrapper, log: Function) {
   try {
     let context = '';
     
@@ -23,6 +323,7 @@ async function processQuery(query: string, options: any, rag: RagEngine, llm: Ll
     const configManager = new ConfigManager();
     const config = await configManager.loadConfig();
     const model = options.model || config.defaultModel;
+    modelName = getModelName(model);
 
     // Get internal context tools
     const internalToolDefs = rag.getInternalTools();
@@ -39,7 +340,7 @@ async function processQuery(query: string, options: any, rag: RagEngine, llm: Ll
     const tools: McpToolDef[] = [...internalToolDefs, ...mcpTools];
 
     // Create tool call handlers for visual feedback
-    const toolHandlers = {
+    const toolHandlers = jsonOutput ? {} : {
       onToolStart: (toolName: string) => {
         const isInternal = rag.isInternalTool(toolName);
         if (isInternal) {
@@ -66,10 +367,17 @@ async function processQuery(query: string, options: any, rag: RagEngine, llm: Ll
 You have access to internal tools for gathering context ON DEMAND. Use these ONLY when genuinely needed:
 
 - **search_session_history**: Search past AI conversations. Use when user references "previous", "last time", "earlier", "that thing we discussed", etc.
-- **get_recent_commands**: Get recent terminal commands. Use when discussing terminal history, debugging command issues, or user asks "what did I just run".
-- **list_project_files**: List project files. Use when user asks about project structure, "what files", or needs file context.
+- **get_recent_commands**: Get terminal commands, optionally filtered by date range (since/until) and pattern, or ranked by frequency or duration. Use when discussing terminal history, debugging command issues, or user asks "what did I just run" / "what docker command did I use yesterday".
+- **search_shell_history**: Search the whole shell history by description. Use when the user wants to recall a command they ran at some point ("that ffmpeg command from last month") rather than the latest ones.
+- **list_project_files**: List project files with sizes; deep directories are summarised with file counts (drill in with \`path\`, sort by size or mtime). Use when user asks about project structure, "what files", or needs file context.
+- **search_project**: Search file contents with a regex (optionally limited by glob). Use to locate definitions, usages or config keys before reading files.
+- **semantic_search_project**: Search the project by meaning ("where is retry logic configured?") using the index built by \`hey-ai index\`. Use when you don't know the exact names to search for.
 - **read_file_content**: Read a specific file. Use when you need to examine code/config to give accurate advice.
-- **get_command_docs**: Get man/tldr docs for a command. Use when explaining unfamiliar commands or verifying syntax.
+- **get_command_docs**: Get man/tldr/--help docs for a command or subcommand (e.g. \`git rebase\`). Pass \`flag\` to check what a specific option does, or \`section\` (OPTIONS, EXAMPLES, ...) to read a full section. Use when explaining unfamiliar commands or verifying syntax, and before suggesting flags you're unsure of.
+- **get_project_info**: Get the project type, package manager and scripts/targets/services. Use when the user asks how to build, test, run or install things here; prefer the project's own scripts (e.g. \`pnpm test\`, \`make build\`) over generic commands.
+- **get_git_status**: Get branch, upstream ahead/behind and staged/unstaged/untracked files. Use before suggesting git commands that depend on repo state (commit, push, pull, rebase, stash).
+- **get_git_log**: Get recent commits, optionally for a path. Use for "what changed recently" or when choosing a commit to reset/revert/rebase onto.
+- **get_git_diff**: Get the working tree or staged diff (size-capped). Use when writing commit messages or explaining uncommitted changes.
 
 **When to use context tools:**
 - User explicitly asks about history, files, or past interactions
@@ -117,56 +425,191 @@ find_and_delete() {
 \`\`\`
 `;
 
+    // Executed blocks need to actually do something, not only define functions
+    const finalSystemPrompt = options.run && !options.system
+      ? `${systemPrompt}
+## Execution
+The user will run your code block directly in their shell after confirming it. End the block with the actual invocation (e.g. \`find_and_delete "*.tmp"\`) instead of a commented-out usage example.
+`
+      : systemPrompt;
+
+    // Summarise older turns before they blow the context window
+    const { conversation } = session;
+    if (conversation) {
+      const compacted = await conversation.compact(transcript => llm.summarize(transcript, model));
+      if (compacted) log('Compacted older conversation turns');
+    }
+    const summary = conversation?.getSummary();
+    const conversationSystemPrompt = summary
+      ? `${finalSystemPrompt}\n## Earlier Conversation Summary\n${summary}\n`
+      : finalSystemPrompt;
+
     const finalPrompt = context 
       ? `${context}\n\n## User Query\n${query}`
       : query;
 
-    console.log(chalk.blue('Thinking...'));
-    
-    const response = await llm.streamPrompt(finalPrompt, {
+    let responseMessages: CoreMessage[] = [];
+    const llmOptions = {
       model: model,
-      system: systemPrompt,
+      system: conversationSystemPrompt,
+      messages: conversation?.getMessages(),
+      onResponseMessages: (messages: CoreMessage[]) => {
+        responseMessages = messages;
+      },
       tools: tools.length > 0 ? tools : undefined,
-      onToolCall: async (toolName, args) => {
+      onToolCall: async (toolName: string, args: Record<string, unknown>) => {
+        const startTime = Date.now();
+        const isInternal = rag.isInternalTool(toolName);
+
         // Route internal context tools differently from MCP tools
-        if (rag.isInternalTool(toolName)) {
-          return rag.executeInternalTool(toolName, args);
-        }
-        return rag.mcp.callTool(toolName, args);
+        const result = rag.redactToolResult(isInternal
+          ? await rag.executeInternalTool(toolName, args)
+          : await rag.mcp.callTool(toolName, args));
+
+        toolCalls.push({
+          tool: toolName,
+          source: isInternal ? 'internal' : 'mcp',
+          server: isInternal ? undefined : rag.mcp.getServerForTool(toolName),
+          args,
+          success: result.success,
+          error: result.error,
+          durationMs: Date.now() - startTime
+        });
+        return result;
       },
       ...toolHandlers
-    });
+    };
+
+    let response: string;
+    let answer: StructuredAnswer | undefined;
+    const review: CodeReviewState = { syntaxRepairs: 0, flagsRepaired: false };
+    if (jsonOutput) {
+      ({ text: response, object: answer } = await llm.promptObject(finalPrompt, StructuredAnswerSchema, llmOptions));
+    } else {
+      console.log(chalk.blue('Thinking...'));
+      response = await llm.streamPrompt(finalPrompt, llmOptions);
+
+      // Repairs are follow-up turns of this query in one message list, so the model sees
+      // its earlier attempts; only the accepted answer is stored
+      const repairTurns: CoreMessage[] = [];
+      let turnPrompt = finalPrompt;
+      let block: CodeBlock | undefined;
+      let followUp: string | null;
+      while ((block = extractCodeBlocks(response)[0]) &&
+             (followUp = await reviewSuggestedCode(block, config, rag, review, log)) !== null) {
+        repairTurns.push(
+          { role: 'user', content: turnPrompt },
+          ...(responseMessages.length > 0 ? responseMessages : [{ role: 'assistant' as const, content: response }])
+        );
+        turnPrompt = followUp;
+        responseMessages = [];
+        response = await llm.streamPrompt(followUp, {
+          ...llmOptions,
+          messages: [...(conversation?.getMessages() || []), ...repairTurns]
+        });
+      }
+    }
 
     // Save to session history
-    await rag.saveInteraction(query, response);
+    const entryId = await rag.saveInteraction(query, response, {
+      conversationId: conversation?.id,
+      model: modelName
+    });
+    if (entryId && review.validation) rag.recordValidation(entryId, review.validation);
 
-    // Extract code blocks for clipboard
-    const codeBlockRegex = /```(?:zsh|bash|sh)?\n([\s\S]*?)\n```/g;
-    const commands: string[] = [];
-    let match;
-    
-    while ((match = codeBlockRegex.exec(response)) !== null) {
-      commands.push(match[1].trim());
+    // Record the turn so it can be replayed in this session and with --continue/--resume
+    if (conversation && responseMessages.length > 0) {
+      conversation.addTurn(query, responseMessages);
+      rag.saveConversationTurn(conversation.id, [{ role: 'user', content: query }, ...responseMessages], entryId);
+    }
+
+    const redacted = Object.entries(rag.takeRedactionCounts());
+    if (redacted.length > 0) {
+      const total = redacted.reduce((sum, [, count]) => sum + count, 0);
+      log(`Redacted ${total} secret(s): ${redacted.map(([source, count]) => `${count} in ${source}`).join(', ')}`);
     }
 
-    if (commands.length > 0) {
+    if (answer) {
+      const commands = answer.commands.filter(command => command.trim());
+      const status = commands.length > 0 ? 'ok' : 'no_command';
+      const warnings = commands.flatMap(command => analyzeCommandRisk(command, config.riskPolicy));
+      printStructuredResult({
+        status,
+        query,
+        model: modelName,
+        conversationId: conversation?.id,
+        entryId,
+        ...answer,
+        commands,
+        risk: maxRiskLevel(answer.risk, getRiskLevel(warnings)),
+        warnings,
+        toolCalls
+      });
+      session.exitCode = getStructuredExitCode(status);
+      return response;
+    }
+
+    // Extract code blocks for clipboard
+    const blocks = extractCodeBlocks(response);
+
+    if (blocks.length > 0) {
       // Use the first code block as it's typically the primary solution
-      const commandToCopy = commands[0]; 
-      try {
-        await clipboardy.write(commandToCopy);
-        console.log(chalk.green('\n✓ Command copied to clipboard!'));
-      } catch (e) {
-        log('Clipboard error:', e);
+      const suggested = blocks[0].code;
+
+      if (!(options.run || session.interactive) || !process.stdin.isTTY) {
+        if (await confirmRiskyCommand(suggested, 'copy', config.riskPolicy)) {
+          await copyToClipboard(suggested, log);
+        }
+        return response;
+      }
+
+      const outcome = await handleCommandAction(suggested, options, log, config.riskPolicy);
+      if (outcome) {
+        if (entryId) rag.recordExitCode(entryId, outcome.result.exitCode);
+
+        if (outcome.result.exitCode !== 0) {
+          const { retry } = await inquirer.prompt([{
+            type: 'confirm',
+            name: 'retry',
+            message: 'Send the error to the model for a corrected version?',
+            default: true
+          }]);
+
+          if (retry) {
+            const stderr = outcome.result.stderr.trim() || '(no stderr output)';
+            const followUp = `The command you suggested failed with exit code ${outcome.result.exitCode}.\n\n` +
+              `## Command\n\`\`\`sh\n${outcome.command}\n\`\`\`\n\n` +
+              `## stderr\n\`\`\`\n${stderr}\n\`\`\`\n\n` +
+              `## Original Request\n${query}\n\nPlease provide a corrected version.`;
+            return processQuery(followUp, options, rag, llm, log, session);
+          }
+        }
       }
     }
     
     return response;
   } catch (error) {
-    console.error(chalk.red('Error:'), error);
+    if (jsonOutput) {
+      printStructuredResult({
+        status: 'error',
+        query,
+        model: modelName,
+        conversationId: session.conversation?.id,
+        toolCalls,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      session.exitCode = getStructuredExitCode('error');
+    } else {
+      console.error(chalk.red('Error:'), error);
+    }
     throw error;
   }
 }
 
+function printStructuredResult(result: StructuredResult) {
+  console.log(JSON.stringify(result, null, 2));
+}
+
 
 export function createProgram() {
   const program = new Command();
@@ -175,6 +618,9 @@ export function createProgram() {
     .name('hey-ai')
     .description('Enhanced CLI for LLM interactions with context and MCP support')
     .version('1.0.0')
+    // Root options stop at a subcommand, so `history export --format md` or
+    // `history list --model x` reach the subcommand instead of the root query options
+    .enablePositionalOptions()
     .argument('[query]', 'The query to ask the LLM (omitting starts interactive mode)')
     .option('-m, --model <model>', 'Specify the model to use')
     .option('--no-history', 'Do not include history context')
@@ -184,11 +630,22 @@ export function createProgram() {
     .option('-v, --verbose', 'Show debug output')
     .option('--show-context', 'Show assembled context without calling LLM')
     .option('--show-prefs', 'Show detected command preferences')
+    .option('-r, --run', 'Offer to run the suggested command in $SHELL after confirmation')
+    .option('-c, --continue', 'Continue the most recent conversation in this directory')
+    .option('--resume <id>', 'Resume a previous conversation by id (or unique prefix)')
+    .option('-f, --format <format>', 'Output format: text or json (structured output for scripts)', 'text')
     .action(async (query, options) => {
+      // Debug output must not end up in JSON on stdout
+      const debugStream = isJsonOutput(options) ? console.error : console.log;
       const log = options.verbose 
-        ? (...args: any[]) => console.log(chalk.gray('[debug]'), ...args)
+        ? (...args: any[]) => debugStream(chalk.gray('[debug]'), ...args)
         : () => {};
 
+      if (!['text', 'json'].includes(options.format)) {
+        console.error(chalk.red(`Error: Unknown format "${options.format}" (use text or json)`));
+        process.exit(1);
+      }
+
       const detector = new CommandDetector();
       const rag = new RagEngine();
       const llm = new LlmWrapper();
@@ -209,6 +666,16 @@ export function createProgram() {
           return;
         }
 
+        const config = await new ConfigManager().loadConfig();
+        let conversation: Conversation;
+        try {
+          conversation = resolveConversation(options, rag, config.conversationTokenBudget);
+        } catch (error) {
+          console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+          process.exit(1);
+        }
+        log('Conversation:', conversation.id);
+
         // Show context mode - show context then continue to LLM
         let isRagInitialized = false;
         if (options.showContext) {
@@ -229,10 +696,16 @@ export function createProgram() {
               chunks.push(chunk);
             }
             query = Buffer.concat(chunks).toString().trim();
+          } else if (isJsonOutput(options)) {
+            console.error(chalk.red('Error: --format json needs a query (argument or stdin)'));
+            process.exit(1);
           } else {
             // Interactive mode
             console.log(chalk.cyan.bold('Entering interactive mode. Type "exit" or "quit" to leave.'));
             if (!isRagInitialized) await rag.init();
+
+            // Each interactive session is one multi-turn conversation
+            const session: QuerySession = { interactive: true, conversation };
             
             while (true) {
               const { input } = await inquirer.prompt([{
@@ -246,7 +719,7 @@ export function createProgram() {
                 break;
               }
 
-              await processQuery(input, options, rag, llm, log);
+              await processQuery(input, options, rag, llm, log, session);
               console.log(); // Newline for spacing
             }
             await rag.mcp.disconnectAll();
@@ -256,10 +729,11 @@ export function createProgram() {
 
         if (query) {
           if (!isRagInitialized) await rag.init();
-          await processQuery(query, options, rag, llm, log);
+          const session: QuerySession = { interactive: false, conversation };
+          await processQuery(query, options, rag, llm, log, session);
           await rag.mcp.disconnectAll();
           if (process.env.NODE_ENV !== 'test') {
-            process.exit(0);  // Ensure clean exit
+            process.exit(session.exitCode ?? 0);  // Ensure clean exit
           }
         }
       } catch (error) {
@@ -312,6 +786,10 @@ _hey-ai() {
     '(-v --verbose)'{-v,--verbose}'[Show debug output]' \
     '--show-context[Show assembled context without calling LLM]' \
     '--show-prefs[Show detected command preferences]' \
+    '(-r --run)'{-r,--run}'[Offer to run the suggested command after confirmation]' \
+    '(-c --continue)'{-c,--continue}'[Continue the most recent conversation in this directory]' \
+    '--resume[Resume a previous conversation by id]:id' \
+    '(-f --format)'{-f,--format}'[Output format]:format:(text json)' \
     '(-h --help)'{-h,--help}'[display help for command]' \
     '(-V --version)'{-V,--version}'[output the version number]' \
     '1: :->command' \
@@ -321,16 +799,30 @@ _hey-ai() {
     command)
       local -a subcommands
       subcommands=(
+        'cache:Manage the command documentation cache'
         'completion:Generate zsh completion script'
         'config:Manage configuration'
+        'history:Browse and manage session history'
+        'index:Build or update the semantic index of this project'
         'mcp:Manage MCP servers'
         'models:List available LLM models'
+        'recall:Find past shell commands by description'
       )
       _describe -t subcommands 'subcommand' subcommands
       _message 'query'
       ;;
     args)
       case $line[1] in
+        cache)
+          local -a cache_cmds
+          cache_cmds=(
+            'list:List cached command docs'
+            'stats:Show cache size and entry counts'
+            'clear:Delete cached docs'
+            'prewarm:Fetch docs for commands ahead of time'
+          )
+          _describe -t cache_cmds 'cache command' cache_cmds
+          ;;
         config)
           local -a config_cmds
           config_cmds=(
@@ -340,6 +832,22 @@ _hey-ai() {
           )
           _describe -t config_cmds 'config command' config_cmds
           ;;
+        history)
+          local -a history_cmds
+          history_cmds=(
+            'list:List recent session entries'
+            'search:Search session history'
+            'show:Show a session entry'
+            'delete:Delete a session entry'
+            'clear:Delete session entries'
+            'export:Export session entries as JSONL or Markdown'
+            'import:Import session entries from a JSONL export'
+          )
+          _describe -t history_cmds 'history command' history_cmds
+          ;;
+        index)
+          _arguments '--status[Show index status]' '--rebuild[Rebuild the index from scratch]'
+          ;;
         mcp)
           local -a mcp_cmds
           mcp_cmds=(
@@ -349,6 +857,8 @@ _hey-ai() {
             'presets:List available preset MCP servers'
             'list:List all configured MCP servers'
             'get:Show details for a specific MCP server'
+            'enable:Enable an MCP server'
+            'disable:Disable an MCP server without removing it'
             'remove:Remove an MCP server'
           )
           _describe -t mcp_cmds 'mcp command' mcp_cmds
@@ -377,6 +887,57 @@ _hey-ai "$@"
       if (key === 'defaultModel' || key === 'model') {
         await configManager.setConfig({ defaultModel: value });
         console.log(chalk.green(`✓ Default model set to: ${value}`));
+      } else if (key === 'conversationTokenBudget') {
+        const budget = parseInt(value, 10);
+        if (!(budget > 0)) {
+          console.error(chalk.red(`Error: conversationTokenBudget must be a positive integer`));
+          process.exit(1);
+        }
+        await configManager.setConfig({ conversationTokenBudget: budget });
+        console.log(chalk.green(`✓ Conversation token budget set to: ${budget}`));
+      } else if (key === 'docsCache.maxSizeMB' || key === 'docsCache.ttlDays') {
+        const amount = Number(value);
+        if (!(amount > 0)) {
+          console.error(chalk.red(`Error: ${key} must be a positive number`));
+          process.exit(1);
+        }
+        const config = await configManager.loadConfig();
+        const field = key === 'docsCache.maxSizeMB' ? 'maxSizeMB' : 'ttlDays';
+        await configManager.setConfig({ docsCache: { ...config.docsCache, [field]: amount } });
+        console.log(chalk.green(`✓ ${key} set to: ${amount}`));
+      } else if (key === 'flagCheck.enabled') {
+        if (value !== 'true' && value !== 'false') {
+          console.error(chalk.red(`Error: flagCheck.enabled must be true or false`));
+          process.exit(1);
+        }
+        const config = await configManager.loadConfig();
+        await configManager.setConfig({ flagCheck: { ...config.flagCheck, enabled: value === 'true' } });
+        console.log(chalk.green(`✓ flagCheck.enabled set to: ${value}`));
+      } else if (key === 'flagCheck.repair') {
+        if (value !== 'ask' && value !== 'auto' && value !== 'never') {
+          console.error(chalk.red(`Error: flagCheck.repair must be one of: ask, auto, never`));
+          process.exit(1);
+        }
+        const config = await configManager.loadConfig();
+        await configManager.setConfig({ flagCheck: { ...config.flagCheck, repair: value } });
+        console.log(chalk.green(`✓ flagCheck.repair set to: ${value}`));
+      } else if (key === 'syntaxCheck.enabled') {
+        if (value !== 'true' && value !== 'false') {
+          console.error(chalk.red(`Error: syntaxCheck.enabled must be true or false`));
+          process.exit(1);
+        }
+        const config = await configManager.loadConfig();
+        await configManager.setConfig({ syntaxCheck: { ...config.syntaxCheck, enabled: value === 'true' } });
+        console.log(chalk.green(`✓ syntaxCheck.enabled set to: ${value}`));
+      } else if (key === 'syntaxCheck.maxRepairs') {
+        const attempts = Number(value);
+        if (!Number.isInteger(attempts) || attempts < 0 || attempts > 5) {
+          console.error(chalk.red(`Error: syntaxCheck.maxRepairs must be an integer from 0 to 5`));
+          process.exit(1);
+        }
+        const config = await configManager.loadConfig();
+        await configManager.setConfig({ syntaxCheck: { ...config.syntaxCheck, maxRepairs: attempts } });
+        console.log(chalk.green(`✓ syntaxCheck.maxRepairs set to: ${attempts}`));
       } else {
         console.error(chalk.red(`Error: Unknown configuration key "${key}"`));
         process.exit(1);
@@ -401,6 +962,24 @@ _hey-ai "$@"
         console.log(chalk.gray('    (Run "hey-ai models" to see available options)'));
       }
       
+      if (config.conversationTokenBudget) {
+        console.log(`  ${chalk.cyan('conversationTokenBudget')}: ${config.conversationTokenBudget}`);
+      }
+
+      if (config.docsCache) {
+        console.log(`  ${chalk.cyan('docsCache')}: ${config.docsCache.maxSizeMB ?? 100} MB, ${config.docsCache.ttlDays ?? 30} days`);
+      }
+
+      if (config.flagCheck) {
+        const enabled = config.flagCheck.enabled === false ? 'disabled' : 'enabled';
+        console.log(`  ${chalk.cyan('flagCheck')}: ${enabled}, repair: ${config.flagCheck.repair ?? 'ask'}`);
+      }
+
+      if (config.syntaxCheck) {
+        const enabled = config.syntaxCheck.enabled === false ? 'disabled' : 'enabled';
+        console.log(`  ${chalk.cyan('syntaxCheck')}: ${enabled}, max repairs: ${config.syntaxCheck.maxRepairs ?? 2}`);
+      }
+      
       const mcpCount = Object.keys(config.mcpServers || {}).length;
       console.log(`  ${chalk.cyan('mcpServers')}: ${mcpCount} configured`);
       
@@ -417,18 +996,18 @@ _hey-ai "$@"
     .description('Manage MCP (Model Context Protocol) servers');
 
   // Preset MCP servers
-  const mcpPresets: Record<string, { description: string; config: { command: string; args?: string[]; env?: Record<string, string> } | { type: 'http' | 'sse'; url: string } }> = {
+  const mcpPresets: Record<string, { description: string; config: McpServerConfig }> = {
     'filesystem': {
       description: 'File system access (read/write files, list directories)',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', process.env.HOME || '/'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', process.env.HOME || '/'] }
     },
     'brave-search': {
       description: 'Web search via Brave Search API (requires BRAVE_API_KEY)',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-brave-search'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-brave-search'] }
     },
     'fetch': {
       description: 'Fetch and convert web content to markdown (requires uvx/uv)',
-      config: { command: 'uvx', args: ['mcp-server-fetch'] }
+      config: { type: 'stdio', command: 'uvx', args: ['mcp-server-fetch'] }
     },
     'deepwiki': {
       description: 'Access documentation and wikis for GitHub repositories',
@@ -436,19 +1015,19 @@ _hey-ai "$@"
     },
     'github': {
       description: 'GitHub API access (requires GITHUB_TOKEN)',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'] }
     },
     'memory': {
       description: 'Persistent memory using a local knowledge graph',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-memory'] }
     },
     'puppeteer': {
       description: 'Browser automation and web scraping',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-puppeteer'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-puppeteer'] }
     },
     'slack': {
       description: 'Slack workspace access (requires SLACK_BOT_TOKEN, SLACK_TEAM_ID)',
-      config: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-slack'] }
+      config: { type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-slack'] }
     },
   };
 
@@ -458,9 +1037,7 @@ _hey-ai "$@"
     .action(() => {
       console.log(chalk.bold('Available MCP server presets:\n'));
       for (const [name, preset] of Object.entries(mcpPresets)) {
-        const cfg = preset.config;
-        const transportType = 'type' in cfg ? cfg.type : 'stdio';
-        console.log(`  ${chalk.cyan(name)} ${chalk.gray(`(${transportType})`)}`);
+        console.log(`  ${chalk.cyan(name)} ${chalk.gray(`(${preset.config.type})`)}`);
         console.log(`    ${preset.description}`);
         console.log();
       }
@@ -487,20 +1064,17 @@ _hey-ai "$@"
       const config = await configManager.loadConfig();
       config.mcpServers = config.mcpServers || {};
 
-      if ('type' in preset.config) {
+      if (preset.config.type !== 'stdio') {
         // Remote server (http/sse)
-        config.mcpServers[name] = {
-          command: `__${preset.config.type}__`,
-          args: [preset.config.url],
-        };
+        config.mcpServers[name] = { ...preset.config };
         await configManager.setConfig(config);
         console.log(chalk.green(`✓ Added MCP server "${name}" (${preset.config.type})`));
         console.log(chalk.gray(`  ${preset.description}`));
         console.log(chalk.gray(`  URL: ${preset.config.url}`));
       } else {
         // Local stdio server
-        const serverConfig: { command: string; args?: string[]; env?: Record<string, string> } = {
-          command: preset.config.command,
+        const serverConfig: McpStdioServerConfig = {
+          ...preset.config,
           args: [...(preset.config.args || [])],
         };
 
@@ -511,13 +1085,7 @@ _hey-ai "$@"
 
         // Parse env vars from options
         if (options.env) {
-          serverConfig.env = {};
-          for (const envPair of options.env) {
-            const [key, ...valueParts] = envPair.split('=');
-            if (key && valueParts.length > 0) {
-              serverConfig.env[key] = valueParts.join('=');
-            }
-          }
+          serverConfig.env = parsePairs(options.env, '=');
         }
 
         config.mcpServers[name] = serverConfig;
@@ -545,7 +1113,10 @@ _hey-ai "$@"
     .command('add <name>')
     .description('Add an MCP server')
     .option('-t, --transport <type>', 'Transport type: stdio, http, or sse', 'stdio')
-    .option('-e, --env <key=value...>', 'Environment variables for the server')
+    .option('-e, --env <key=value...>', 'Environment variables for the server (stdio only)')
+    .option('-H, --header <name: value...>', 'HTTP headers to send (http/sse only)')
+    .option('--cwd <dir>', 'Working directory for the server (stdio only)')
+    .option('--timeout <ms>', 'Request timeout in milliseconds')
     .argument('[command_or_url]', 'Command (for stdio) or URL (for http/sse)')
     .argument('[args...]', 'Arguments for the command (stdio only, use -- to separate)')
     .allowUnknownOption(true)
@@ -564,6 +1135,11 @@ _hey-ai "$@"
       const config = await configManager.loadConfig();
       
       const transport = options.transport.toLowerCase();
+      const timeoutMs = options.timeout ? parseInt(options.timeout, 10) : undefined;
+      if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+        console.error(chalk.red(`Error: Invalid timeout "${options.timeout}"`));
+        process.exit(1);
+      }
       
       if (transport === 'stdio') {
         if (!commandOrUrl) {
@@ -575,17 +1151,10 @@ _hey-ai "$@"
           process.exit(1);
         }
         
-        const envVars: Record<string, string> = {};
-        if (options.env) {
-          for (const envPair of options.env) {
-            const [key, ...valueParts] = envPair.split('=');
-            if (key && valueParts.length > 0) {
-              envVars[key] = valueParts.join('=');
-            }
-          }
-        }
+        const envVars = options.env ? parsePairs(options.env, '=') : {};
         
-        const serverConfig: { command: string; args?: string[]; env?: Record<string, string> } = {
+        const serverConfig: McpStdioServerConfig = {
+          type: 'stdio',
           command: commandOrUrl,
         };
         
@@ -596,6 +1165,14 @@ _hey-ai "$@"
         if (Object.keys(envVars).length > 0) {
           serverConfig.env = envVars;
         }
+
+        if (options.cwd) {
+          serverConfig.cwd = options.cwd;
+        }
+
+        if (timeoutMs) {
+          serverConfig.timeoutMs = timeoutMs;
+        }
         
         config.mcpServers = config.mcpServers || {};
         config.mcpServers[name] = serverConfig;
@@ -611,13 +1188,27 @@ _hey-ai "$@"
           console.log(chalk.gray(`Example: hey-ai mcp add -t ${transport} stripe https://mcp.stripe.com`));
           process.exit(1);
         }
+
+        if (!URL.canParse(commandOrUrl)) {
+          console.error(chalk.red(`Error: Invalid URL "${commandOrUrl}"`));
+          process.exit(1);
+        }
         
-        // For http/sse, store as a special format
-        config.mcpServers = config.mcpServers || {};
-        config.mcpServers[name] = {
-          command: `__${transport}__`,
-          args: [commandOrUrl],
+        const serverConfig: McpRemoteServerConfig = {
+          type: transport,
+          url: commandOrUrl,
         };
+
+        if (options.header) {
+          serverConfig.headers = parsePairs(options.header, ':');
+        }
+
+        if (timeoutMs) {
+          serverConfig.timeoutMs = timeoutMs;
+        }
+
+        config.mcpServers = config.mcpServers || {};
+        config.mcpServers[name] = serverConfig;
         
         await configManager.setConfig(config);
         console.log(chalk.green(`✓ Added MCP server "${name}" (${transport})`));
@@ -637,41 +1228,31 @@ _hey-ai "$@"
       const configManager = new ConfigManager();
       const config = await configManager.loadConfig();
       
+      let json: unknown;
       try {
-        const serverConfig = JSON.parse(jsonStr);
-        
-        // Validate the config has required fields
-        if (serverConfig.type === 'http' || serverConfig.type === 'sse') {
-          if (!serverConfig.url) {
-            console.error(chalk.red('Error: URL is required for http/sse servers'));
-            process.exit(1);
-          }
-          config.mcpServers = config.mcpServers || {};
-          config.mcpServers[name] = {
-            command: `__${serverConfig.type}__`,
-            args: [serverConfig.url],
-          };
-        } else if (serverConfig.command) {
-          config.mcpServers = config.mcpServers || {};
-          config.mcpServers[name] = {
-            command: serverConfig.command,
-            args: serverConfig.args,
-            env: serverConfig.env,
-          };
-        } else {
-          console.error(chalk.red('Error: Invalid MCP server configuration'));
-          console.log(chalk.gray('Expected either "command" (for stdio) or "type"+"url" (for http/sse)'));
-          process.exit(1);
-        }
-        
-        await configManager.setConfig(config);
-        console.log(chalk.green(`✓ Added MCP server "${name}" from JSON`));
-        
+        json = JSON.parse(jsonStr);
       } catch (e) {
         console.error(chalk.red('Error: Invalid JSON'));
         console.log(chalk.gray('Example: hey-ai mcp add-json myserver \'{"command":"npx","args":["-y","server"]}\''));
         process.exit(1);
       }
+
+      // Accepts the typed shape as well as legacy entries without "type"
+      const parsed = McpServerConfigSchema.safeParse(json);
+      if (!parsed.success) {
+        console.error(chalk.red('Error: Invalid MCP server configuration'));
+        console.log(chalk.gray('Expected either "command" (for stdio) or "type"+"url" (for http/sse)'));
+        for (const issue of parsed.error.issues) {
+          console.log(chalk.gray(`  - ${issue.path.join('.') || '(root)'}: ${issue.message}`));
+        }
+        process.exit(1);
+      }
+
+      config.mcpServers = config.mcpServers || {};
+      config.mcpServers[name] = parsed.data;
+      
+      await configManager.setConfig(config);
+      console.log(chalk.green(`✓ Added MCP server "${name}" from JSON (${parsed.data.type})`));
     });
 
   mcpCmd
@@ -683,8 +1264,9 @@ _hey-ai "$@"
       
       const servers = config.mcpServers || {};
       const serverNames = Object.keys(servers);
+      const invalidNames = configManager.getInvalidServers();
       
-      if (serverNames.length === 0) {
+      if (serverNames.length === 0 && invalidNames.length === 0) {
         console.log(chalk.gray('No MCP servers configured.'));
         console.log(chalk.gray('\nAdd one with: hey-ai mcp add <name> <command> [args...]'));
         return;
@@ -694,21 +1276,31 @@ _hey-ai "$@"
       
       for (const name of serverNames) {
         const server = servers[name];
+        const disabled = server.enabled === false ? chalk.yellow(' [disabled]') : '';
+        console.log(`  ${chalk.cyan(name)} ${chalk.gray(`(${server.type})`)}${disabled}`);
         
-        // Check for http/sse transport marker
-        if (server.command.startsWith('__') && server.command.endsWith('__')) {
-          const transport = server.command.slice(2, -2);
-          console.log(`  ${chalk.cyan(name)} ${chalk.gray(`(${transport})`)}`);
-          console.log(`    URL: ${server.args?.[0] || '(none)'}`);
-        } else {
-          console.log(`  ${chalk.cyan(name)} ${chalk.gray('(stdio)')}`);
+        if (server.type === 'stdio') {
           console.log(`    Command: ${server.command}${server.args?.length ? ' ' + server.args.join(' ') : ''}`);
           if (server.env && Object.keys(server.env).length > 0) {
             console.log(`    Env: ${Object.keys(server.env).join(', ')}`);
           }
+        } else {
+          console.log(`    URL: ${server.url}`);
+          if (server.headers && Object.keys(server.headers).length > 0) {
+            console.log(`    Headers: ${Object.keys(server.headers).join(', ')}`);
+          }
         }
         console.log();
       }
+
+      for (const name of invalidNames) {
+        console.log(`  ${chalk.cyan(name)} ${chalk.red('[invalid]')}`);
+        console.log(`    Error: ${configManager.getInvalidServer(name)!.error}`);
+        console.log();
+      }
+      if (invalidNames.length > 0) {
+        console.log(chalk.gray('Invalid servers are ignored. Fix them in the config file, or remove them with: hey-ai mcp remove <name>'));
+      }
     });
 
   mcpCmd
@@ -719,6 +1311,15 @@ _hey-ai "$@"
       const config = await configManager.loadConfig();
       
       const server = config.mcpServers?.[name];
+      const invalid = configManager.getInvalidServer(name);
+
+      if (!server && invalid) {
+        console.log(chalk.bold(`MCP Server: ${name}\n`));
+        console.log(`  Invalid: ${invalid.error}`);
+        console.log(`  Entry: ${JSON.stringify(invalid.entry)}`);
+        console.log(chalk.gray(`\nThe server is ignored. Fix it in the config file, or remove it with: hey-ai mcp remove ${name}`));
+        return;
+      }
       
       if (!server) {
         console.error(chalk.red(`Error: MCP server "${name}" not found`));
@@ -726,44 +1327,78 @@ _hey-ai "$@"
       }
       
       console.log(chalk.bold(`MCP Server: ${name}\n`));
+      console.log(`  Transport: ${server.type}`);
       
-      if (server.command.startsWith('__') && server.command.endsWith('__')) {
-        const transport = server.command.slice(2, -2);
-        console.log(`  Transport: ${transport}`);
-        console.log(`  URL: ${server.args?.[0] || '(none)'}`);
-      } else {
-        console.log(`  Transport: stdio`);
+      if (server.type === 'stdio') {
         console.log(`  Command: ${server.command}`);
         if (server.args?.length) {
           console.log(`  Args: ${JSON.stringify(server.args)}`);
         }
+        if (server.cwd) {
+          console.log(`  Cwd: ${server.cwd}`);
+        }
         if (server.env && Object.keys(server.env).length > 0) {
           console.log(`  Env:`);
           for (const [key, value] of Object.entries(server.env)) {
             console.log(`    ${key}=${value}`);
           }
         }
+      } else {
+        console.log(`  URL: ${server.url}`);
+        if (server.headers && Object.keys(server.headers).length > 0) {
+          console.log(`  Headers:`);
+          for (const [key, value] of Object.entries(server.headers)) {
+            console.log(`    ${key}: ${value}`);
+          }
+        }
       }
+
+      if (server.timeoutMs) {
+        console.log(`  Timeout: ${server.timeoutMs}ms`);
+      }
+      console.log(`  Enabled: ${server.enabled !== false ? 'yes' : 'no'}`);
     });
 
+  for (const [action, enabled] of [['enable', true], ['disable', false]] as const) {
+    mcpCmd
+      .command(`${action} <name>`)
+      .description(`${enabled ? 'Enable' : 'Disable'} an MCP server without removing it`)
+      .action(async (name: string) => {
+        const configManager = new ConfigManager();
+        const config = await configManager.loadConfig();
+
+        const server = config.mcpServers?.[name];
+        if (!server) {
+          console.error(chalk.red(`Error: MCP server "${name}" not found`));
+          process.exit(1);
+        }
+
+        server.enabled = enabled;
+        await configManager.setConfig(config);
+
+        console.log(chalk.green(`✓ ${enabled ? 'Enabled' : 'Disabled'} MCP server "${name}"`));
+      });
+  }
+
   mcpCmd
     .command('remove <name>')
     .description('Remove an MCP server')
     .action(async (name: string) => {
       const configManager = new ConfigManager();
-      const config = await configManager.loadConfig();
       
-      if (!config.mcpServers?.[name]) {
+      if (!await configManager.removeMcpServer(name)) {
         console.error(chalk.red(`Error: MCP server "${name}" not found`));
         process.exit(1);
       }
       
-      delete config.mcpServers[name];
-      await configManager.setConfig(config);
-      
       console.log(chalk.green(`✓ Removed MCP server "${name}"`));
     });
 
+  registerHistoryCommand(program);
+  registerRecallCommand(program);
+  registerIndexCommand(program);
+  registerCacheCommand(program);
+
   return program;
 }
 
@@ -776,5 +1411,9 @@ const isMain = process.argv[1] && (
 );
 
 if (isMain) {
-  program.parse();
+  // Errors not handled by a command (e.g. refusing to overwrite an invalid config file)
+  program.parseAsync().catch((error) => {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  });
 }
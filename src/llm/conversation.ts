@@ -0,0 +1,129 @@
+/**
+ * In-memory multi-turn conversation state passed to the AI SDK as `messages`.
+ * Older turns are summarised once the conversation exceeds a token budget.
+ */
+
+import crypto from 'node:crypto';
+import type { CoreMessage } from 'ai';
+
+export const DEFAULT_TOKEN_BUDGET = 8000;
+
+// Most recent turns are always kept verbatim when compacting
+const KEEP_RECENT_TURNS = 2;
+
+// Tool results can be huge (file contents); only keep a preview in summaries
+const MAX_TOOL_RESULT_PREVIEW = 500;
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(messages: CoreMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    chars += typeof message.content === 'string'
+      ? message.content.length
+      : JSON.stringify(message.content).length;
+  }
+  return Math.ceil(chars / 4);
+}
+
+/**
+ * Render messages as a plain-text transcript for summarisation
+ */
+export function formatTranscript(messages: CoreMessage[]): string {
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      lines.push(`${message.role.toUpperCase()}: ${message.content}`);
+      continue;
+    }
+
+    for (const part of message.content) {
+      if (part.type === 'text') {
+        lines.push(`${message.role.toUpperCase()}: ${part.text}`);
+      } else if (part.type === 'tool-call') {
+        lines.push(`TOOL CALL: ${part.toolName}(${JSON.stringify(part.args)})`);
+      } else if (part.type === 'tool-result') {
+        const result = typeof part.result === 'string' ? part.result : JSON.stringify(part.result);
+        const preview = result.length > MAX_TOOL_RESULT_PREVIEW
+          ? `${result.slice(0, MAX_TOOL_RESULT_PREVIEW)}...`
+          : result;
+        lines.push(`TOOL RESULT (${part.toolName}): ${preview}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export class Conversation {
+  readonly id: string;
+  private messages: CoreMessage[] = [];
+  private summary: string = '';
+  private tokenBudget: number;
+
+  constructor(tokenBudget: number = DEFAULT_TOKEN_BUDGET, id?: string, messages: CoreMessage[] = []) {
+    this.tokenBudget = tokenBudget;
+    this.id = id || crypto.randomUUID();
+    this.messages = [...messages];
+  }
+
+  /**
+   * Messages from previous turns (user, assistant and tool messages)
+   */
+  getMessages(): CoreMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Summary of turns that were compacted away, if any
+   */
+  getSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Record a completed turn: the user's query plus the model's response messages
+   */
+  addTurn(userMessage: string, responseMessages: CoreMessage[]) {
+    this.messages.push({ role: 'user', content: userMessage }, ...responseMessages);
+  }
+
+  /**
+   * Summarise older turns when the conversation exceeds its token budget.
+   * Turns are only cut at user messages so tool calls stay paired with their results.
+   * Returns true if turns were compacted.
+   */
+  async compact(summarize: (transcript: string) => Promise<string>): Promise<boolean> {
+    const summaryTokens = Math.ceil(this.summary.length / 4);
+    if (estimateTokens(this.messages) + summaryTokens <= this.tokenBudget) {
+      return false;
+    }
+
+    const turnStarts = this.messages
+      .map((m, i) => (m.role === 'user' ? i : -1))
+      .filter(i => i >= 0);
+    if (turnStarts.length <= KEEP_RECENT_TURNS) {
+      return false;
+    }
+
+    const cutIndex = turnStarts[turnStarts.length - KEEP_RECENT_TURNS];
+    const older = this.messages.slice(0, cutIndex);
+    const transcript = this.summary
+      ? `Summary of earlier conversation:\n${this.summary}\n\n${formatTranscript(older)}`
+      : formatTranscript(older);
+
+    try {
+      this.summary = (await summarize(transcript)).trim();
+    } catch (error) {
+      // Summaries are best-effort; still drop the old turns to stay within budget
+      if (process.env.DEBUG) {
+        console.error('[conversation] Summarisation failed:', error);
+      }
+    }
+
+    this.messages = this.messages.slice(cutIndex);
+    return true;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Structured (JSON) answers for `--format json`, used by scripts and editor plugins
+ */
+
+import { z } from 'zod';
+import type { RiskFinding } from '../shell/risk.js';
+
+export const StructuredAnswerSchema = z.object({
+  commands: z.array(z.string())
+    .describe('Shell commands or scripts to run, in order. Empty if the answer does not include a command.'),
+  explanation: z.string()
+    .describe('Short explanation of what the commands do'),
+  platform: z.string()
+    .describe('Operating system and shell the commands target, e.g. "macOS (zsh)"'),
+  risk: z.enum(['low', 'medium', 'high'])
+    .describe('low: read-only; medium: modifies files or state; high: destructive or irreversible'),
+});
+
+export type StructuredAnswer = z.infer<typeof StructuredAnswerSchema>;
+
+/**
+ * Record of a tool call made while answering
+ */
+export interface ToolCallRecord {
+  tool: string;
+  source: 'internal' | 'mcp';
+  server?: string;
+  args: Record<string, unknown>;
+  success: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Process exit codes in JSON mode
+ */
+export const JSON_EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  noCommand: 2,
+} as const;
+
+export type StructuredStatus = 'ok' | 'no_command' | 'error';
+
+export interface StructuredResult extends Partial<StructuredAnswer> {
+  status: StructuredStatus;
+  query: string;
+  model: string;
+  conversationId?: string;
+  entryId?: number;
+  /** Dangerous patterns found by the local risk analyzer */
+  warnings?: RiskFinding[];
+  toolCalls: ToolCallRecord[];
+  error?: string;
+}
+
+export function getStructuredExitCode(status: StructuredStatus): number {
+  switch (status) {
+    case 'ok':
+      return JSON_EXIT_CODES.ok;
+    case 'no_command':
+      return JSON_EXIT_CODES.noCommand;
+    default:
+      return JSON_EXIT_CODES.error;
+  }
+}
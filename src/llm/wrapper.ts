@@ -1,4 +1,4 @@
-import { generateText, tool } from 'ai';
+import { generateObject, generateText, streamText, tool, type CoreMessage } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
@@ -14,6 +14,10 @@ export interface McpToolDef {
 export interface LlmOptions {
   model?: string;
   system?: string;
+  /** Messages from previous turns; the input is appended as the next user message */
+  messages?: CoreMessage[];
+  /** Receives the assistant and tool messages generated for this turn */
+  onResponseMessages?: (messages: CoreMessage[]) => void;
   tools?: McpToolDef[];
   onToolCall?: (toolName: string, args: Record<string, unknown>) => Promise<{ success: boolean; content: string; error?: string }>;
   onToolStart?: (toolName: string, serverName?: string) => void;
@@ -60,6 +64,13 @@ export function resolveModelAlias(modelName: string): string {
   return MODEL_ALIASES[modelName.toLowerCase()] || modelName;
 }
 
+/**
+ * Resolve the model that will actually be used: explicit model, then $LLM_MODEL, then the default
+ */
+export function getModelName(modelName?: string): string {
+  return resolveModelAlias(modelName || process.env.LLM_MODEL || 'gpt-4o-mini');
+}
+
 /**
  * Get the list of all available models grouped by provider
  */
@@ -193,14 +204,36 @@ function jsonSchemaToZod(schema: Record<string, unknown>): z.ZodTypeAny {
   return z.object({});
 }
 
+/**
+ * Build the full message list (previous turns plus the input as the next user message)
+ */
+function buildMessages(input: string, options: LlmOptions): CoreMessage[] {
+  return [...(options.messages || []), { role: 'user', content: input }];
+}
+
+/**
+ * Build the prompt or messages input for the AI SDK
+ */
+function buildInput(input: string, options: LlmOptions): { prompt: string } | { messages: CoreMessage[] } {
+  if (options.messages && options.messages.length > 0) {
+    return { messages: buildMessages(input, options) };
+  }
+  return { prompt: input };
+}
+
+const STRUCTURED_ANSWER_PROMPT = 'Restate your final answer as a JSON object matching the schema.';
+
+const SUMMARY_SYSTEM_PROMPT = `Summarise the following conversation between a user and a CLI assistant.
+Keep the user's goals, decisions, file paths, commands that were suggested or run, and any unresolved issues.
+Be concise: a short paragraph or a few bullet points.`;
+
 export class LlmWrapper {
   constructor() {}
 
-  async prompt(input: string, options: LlmOptions = {}): Promise<string> {
-    const modelName = options.model || process.env.LLM_MODEL || 'gpt-4o-mini';
-    const model = getModelFromName(modelName);
-    
-    // Convert MCP tools to Vercel AI SDK format using Zod
+  /**
+   * Convert MCP tool definitions to Vercel AI SDK tools wired to the option callbacks
+   */
+  private buildTools(options: LlmOptions): Record<string, any> {
     const aiTools: Record<string, any> = {};
     
     if (options.tools && options.onToolCall) {
@@ -234,23 +267,128 @@ export class LlmWrapper {
         } as any);
       }
     }
+
+    return aiTools;
+  }
+
+  async prompt(input: string, options: LlmOptions = {}): Promise<string> {
+    const model = getModelFromName(getModelName(options.model));
+    
+    // Convert MCP tools to Vercel AI SDK format using Zod
+    const aiTools = this.buildTools(options);
     
     const result = await generateText({
       model,
       system: options.system,
-      prompt: input,
+      ...buildInput(input, options),
       tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
       maxSteps: 10, // Allow up to 10 tool calls
     });
     
+    options.onResponseMessages?.(result.response.messages);
+
     const responseText = result.text;
     console.log(responseText);
     return responseText;
   }
 
-  // Alias for backward compatibility
+  /**
+   * Stream text deltas to stdout as they arrive, across all tool-calling steps.
+   * Returns the full text that was printed.
+   */
   async streamPrompt(input: string, options: LlmOptions = {}): Promise<string> {
-    return this.prompt(input, options);
+    const model = getModelFromName(getModelName(options.model));
+
+    // Track whether streamed text left the cursor mid-line
+    let lineOpen = false;
+    const closeLine = () => {
+      if (lineOpen) {
+        process.stdout.write('\n');
+        lineOpen = false;
+      }
+    };
+
+    // Tool indicators must start on their own line, after any partial text
+    const aiTools = this.buildTools({
+      ...options,
+      onToolStart: (toolName, serverName) => {
+        closeLine();
+        options.onToolStart?.(toolName, serverName);
+      }
+    });
+
+    const result = streamText({
+      model,
+      system: options.system,
+      ...buildInput(input, options),
+      tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
+      maxSteps: 10, // Allow up to 10 tool calls
+    });
+
+    let responseText = '';
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') {
+        if (!part.textDelta) continue;
+        process.stdout.write(part.textDelta);
+        responseText += part.textDelta;
+        lineOpen = !part.textDelta.endsWith('\n');
+      } else if (part.type === 'error') {
+        closeLine();
+        throw part.error;
+      }
+    }
+    closeLine();
+
+    if (options.onResponseMessages) {
+      options.onResponseMessages((await result.response).messages);
+    }
+
+    return responseText;
+  }
+
+  /**
+   * Answer with an object matching `schema` instead of printing text.
+   * Tools run in a normal generateText pass first, then the answer is restated
+   * with generateObject (providers can't combine tool calls with JSON output reliably).
+   * Returns the text answer as well as the object. Nothing is printed.
+   */
+  async promptObject<T>(input: string, schema: z.ZodType<T>, options: LlmOptions = {}): Promise<{ text: string; object: T }> {
+    const model = getModelFromName(getModelName(options.model));
+    const aiTools = this.buildTools(options);
+    const messages = buildMessages(input, options);
+
+    const result = await generateText({
+      model,
+      system: options.system,
+      messages,
+      tools: Object.keys(aiTools).length > 0 ? aiTools : undefined,
+      maxSteps: 10, // Allow up to 10 tool calls
+    });
+
+    options.onResponseMessages?.(result.response.messages);
+
+    const { object } = await generateObject({
+      model,
+      system: options.system,
+      messages: [...messages, ...result.response.messages, { role: 'user', content: STRUCTURED_ANSWER_PROMPT }],
+      schema,
+    });
+
+    return { text: result.text, object };
+  }
+
+  /**
+   * Summarise a conversation transcript (used to compact older turns).
+   * Nothing is printed.
+   */
+  async summarize(transcript: string, modelName?: string): Promise<string> {
+    const model = getModelFromName(getModelName(modelName));
+    const result = await generateText({
+      model,
+      system: SUMMARY_SYSTEM_PROMPT,
+      prompt: transcript,
+    });
+    return result.text;
   }
 }
 
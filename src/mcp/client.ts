@@ -1,6 +1,8 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { ConfigManager } from '../config.js';
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { ConfigManager, type McpServerConfig } from '../config.js';
 
 export interface McpToolResult {
   success: boolean;
@@ -18,10 +20,11 @@ export interface McpToolInfo {
 export class McpManager {
   private clients: Map<string, Client> = new Map();
   private toolToServer: Map<string, string> = new Map();
+  private serverTimeouts: Map<string, number> = new Map();
   private configManager: ConfigManager;
 
-  constructor() {
-    this.configManager = new ConfigManager();
+  constructor(configManager?: ConfigManager) {
+    this.configManager = configManager || new ConfigManager();
   }
 
   async connectAll() {
@@ -30,26 +33,17 @@ export class McpManager {
     if (!config.mcpServers) return;
 
     for (const [name, serverConfig] of Object.entries(config.mcpServers)) {
+      if (serverConfig.enabled === false) continue;
+
       try {
-        const transport = new StdioClientTransport({
-          command: serverConfig.command,
-          args: serverConfig.args,
-          env: serverConfig.env,
-          stderr: 'ignore'  // Suppress MCP server status messages
-        });
-
-        const client = new Client({
-          name: "hey-ai-client",
-          version: "1.0.0",
-        }, {
-          capabilities: {}
-        });
-
-        await client.connect(transport);
+        const client = await this.connectServer(serverConfig);
         this.clients.set(name, client);
+        if (serverConfig.timeoutMs) {
+          this.serverTimeouts.set(name, serverConfig.timeoutMs);
+        }
 
         // Index tools to this server
-        const toolsResult = await client.listTools({});
+        const toolsResult = await client.listTools({}, this.getRequestOptions(name));
         if (toolsResult.tools) {
           for (const tool of toolsResult.tools) {
             this.toolToServer.set(tool.name, name);
@@ -61,6 +55,67 @@ export class McpManager {
     }
   }
 
+  private createClient(): Client {
+    return new Client({
+      name: "hey-ai-client",
+      version: "1.0.0",
+    }, {
+      capabilities: {}
+    });
+  }
+
+  /**
+   * Connect to a single server using the transport its config describes
+   */
+  private async connectServer(serverConfig: McpServerConfig): Promise<Client> {
+    const timeout = serverConfig.timeoutMs;
+
+    if (serverConfig.type === 'http' || serverConfig.type === 'sse') {
+      const url = new URL(serverConfig.url);
+      const requestInit: RequestInit | undefined = serverConfig.headers
+        ? { headers: serverConfig.headers }
+        : undefined;
+
+      if (serverConfig.type === 'http') {
+        // Prefer Streamable HTTP, fall back to legacy SSE for older servers
+        const client = this.createClient();
+        try {
+          await client.connect(new StreamableHTTPClientTransport(url, { requestInit }), { timeout });
+          return client;
+        } catch (error) {
+          await client.close().catch(() => {});
+          if (process.env.DEBUG) {
+            console.error(`[mcp] Streamable HTTP failed for ${url}, falling back to SSE:`, error);
+          }
+        }
+      }
+
+      const client = this.createClient();
+      await client.connect(new SSEClientTransport(url, { requestInit }), { timeout });
+      return client;
+    }
+
+    const transport = new StdioClientTransport({
+      command: serverConfig.command,
+      args: serverConfig.args,
+      env: serverConfig.env,
+      cwd: serverConfig.cwd,
+      stderr: 'ignore'  // Suppress MCP server status messages
+    });
+
+    const client = this.createClient();
+    await client.connect(transport, { timeout });
+    return client;
+  }
+
+  /**
+   * Per-server request options (configured timeout, if any)
+   */
+  private getRequestOptions(serverName: string): { timeout: number } | undefined {
+    const timeout = this.serverTimeouts.get(serverName);
+    return timeout ? { timeout } : undefined;
+  }
+
   /**
    * Disconnect all MCP clients to allow process to exit
    */
@@ -74,6 +129,7 @@ export class McpManager {
     }
     this.clients.clear();
     this.toolToServer.clear();
+    this.serverTimeouts.clear();
   }
 
   async getResources(query?: string) {
@@ -95,7 +151,7 @@ export class McpManager {
     const allTools: McpToolInfo[] = [];
     for (const [serverName, client] of this.clients) {
       try {
-        const result = await client.listTools({});
+        const result = await client.listTools({}, this.getRequestOptions(serverName));
         if (result.tools) {
           allTools.push(...result.tools.map(t => ({
             name: t.name,
@@ -208,7 +264,7 @@ export class McpManager {
       const result = await client.callTool({
         name: toolName,
         arguments: args
-      });
+      }, undefined, this.getRequestOptions(serverName));
 
       // Extract text content from result
       let content = '';
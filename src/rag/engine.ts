@@ -1,10 +1,17 @@
 import os from 'node:os';
-import { spawnSync } from 'node:child_process';
-import { ZshHistory } from '../context/history.js';
+import { createHistoryProvider, type HistoryProvider } from '../context/history.js';
 import { FileContext } from '../context/files.js';
-import { SessionHistory } from '../context/session.js';
+import { GitContext } from '../context/git.js';
+import { ProjectInspector, formatProjectSummary } from '../context/project.js';
+import { ProjectSearch } from '../context/search.js';
+import { SessionHistory, type StoredMessage, type EntryMetadata, type ShellCommandMatch } from '../context/session.js';
+import { updateShellHistoryIndex } from '../context/history-index.js';
+import { ProjectIndex, type ProjectIndexHit } from './project-index.js';
 import { CommandDetector } from '../context/commands.js';
 import { CommandDocsCache } from '../context/docs-cache.js';
+import { loadCommandDocs, formatDocsOverview, type CommandDocs, type DocsFetchOptions } from '../context/docs.js';
+import { SecretRedactor } from '../context/redactor.js';
+import { ConfigManager } from '../config.js';
 import { McpManager } from '../mcp/client.js';
 import {
   getInternalToolDefs,
@@ -16,23 +23,35 @@ import {
 import type { McpToolDef } from '../llm/wrapper.js';
 
 export class RagEngine {
-  private history: ZshHistory;
+  private history: HistoryProvider;
   private files: FileContext;
+  private git: GitContext;
+  private project: ProjectInspector;
+  private search: ProjectSearch;
   public session: SessionHistory;
   private commands: CommandDetector;
   private docsCache: CommandDocsCache;
+  private redactor: SecretRedactor;
   public mcp: McpManager;
 
   constructor() {
-    this.history = new ZshHistory();
+    this.history = createHistoryProvider();
     this.files = new FileContext();
+    this.git = new GitContext();
+    this.project = new ProjectInspector();
     this.session = new SessionHistory();
     this.commands = new CommandDetector();
+    this.search = new ProjectSearch(undefined, { ripgrep: this.commands.hasCommand('rg') });
     this.docsCache = new CommandDocsCache();
+    this.redactor = new SecretRedactor();
     this.mcp = new McpManager();
   }
 
   async init() {
+    const config = await new ConfigManager().loadConfig();
+    this.redactor = new SecretRedactor(config.redaction);
+    this.docsCache = new CommandDocsCache(undefined, config.docsCache);
+    this.history = createHistoryProvider(config.shellHistory);
     await this.mcp.connectAll();
   }
 
@@ -47,118 +66,20 @@ export class RagEngine {
   }
 
   /**
-   * Get man/tldr page for a command (public for internal tools).
-   * Uses caching with lookup order: cache -> man -> tldr
+   * Get documentation for a command or subcommand (`git rebase`), parsed into
+   * sections (public for internal tools).
+   * Uses caching with lookup order: cache -> man -> tldr -> --help
    */
-  async getManPage(command: string): Promise<string | null> {
-    // 1. Check cache first (fast async read)
-    const cached = await this.docsCache.get(command);
-    if (cached) {
-      return cached;
-    }
-
-    // 2. Try man first (fast, ~100ms)
-    const manResult = this.fetchManPage(command);
-    if (manResult) {
-      // Cache async, don't block
-      this.docsCache.set(command, manResult, 'man').catch((error) => {
-        if (process.env.DEBUG) {
-          console.error('[docs-cache] Cache write error:', error);
-        }
-      });
-      return manResult;
-    }
-
-    // 3. Fall back to tldr (with auto-update disabled, ~4ms)
-    const tldrResult = this.fetchTldrPage(command);
-    if (tldrResult) {
-      // Cache async, don't block
-      this.docsCache.set(command, tldrResult, 'tldr').catch((error) => {
-        if (process.env.DEBUG) {
-          console.error('[docs-cache] Cache write error:', error);
-        }
-      });
-      return tldrResult;
-    }
-
-    return null;
-  }
-
-  /**
-   * Fetch man page for a command, extracting NAME + SYNOPSIS/DESCRIPTION
-   */
-  private fetchManPage(command: string): string | null {
-    try {
-      // Run man with command as argument (not interpolated into shell string)
-      const man = spawnSync('man', [command], { 
-        encoding: 'utf8', 
-        timeout: 5000,
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-      if (man.status === 0 && man.stdout) {
-        // Strip formatting using col -b
-        const col = spawnSync('col', ['-b'], {
-          encoding: 'utf8',
-          input: man.stdout,
-          timeout: 1000,
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
-        const output = col.status === 0 ? col.stdout : man.stdout;
-        // Extract just the NAME and SYNOPSIS/DESCRIPTION sections
-        const lines = output.split('\n');
-        const result: string[] = [];
-        let inSection = false;
-        let sectionCount = 0;
-        const sectionHeaders = ['NAME', 'SYNOPSIS', 'DESCRIPTION'];
-        
-        for (const line of lines) {
-          const trimmed = line.trim();
-          // Check if this is a section header (all caps, at start of line)
-          if (sectionHeaders.includes(trimmed)) {
-            if (sectionCount >= 2) break; // Stop after NAME + SYNOPSIS or NAME + DESCRIPTION
-            inSection = true;
-            sectionCount++;
-            result.push('');
-            result.push(`### ${trimmed}`);
-            continue;
-          }
-          // Stop at next section header
-          if (inSection && /^[A-Z][A-Z\s]+$/.test(trimmed) && trimmed.length > 2) {
-            break;
-          }
-          if (inSection && line.trim()) {
-            result.push(line);
-          }
-        }
-        
-        if (result.length > 0) {
-          return result.join('\n').trim();
-        }
-      }
-    } catch {
-      // man not available or failed
-    }
-    return null;
+  async getCommandDocs(command: string, options?: DocsFetchOptions): Promise<CommandDocs | null> {
+    return loadCommandDocs(command, this.docsCache, options);
   }
 
   /**
-   * Fetch tldr page for a command (with auto-update disabled for speed)
+   * NAME, SYNOPSIS and DESCRIPTION of a command's documentation
    */
-  private fetchTldrPage(command: string): string | null {
-    try {
-      const tldr = spawnSync('tldr', [command], { 
-        encoding: 'utf8', 
-        timeout: 5000,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        env: { ...process.env, TLDR_AUTO_UPDATE_DISABLED: '1' }
-      });
-      if (tldr.status === 0 && tldr.stdout.trim()) {
-        return tldr.stdout.trim();
-      }
-    } catch {
-      // tldr not available
-    }
-    return null;
+  async getManPage(command: string): Promise<string | null> {
+    const docs = await this.getCommandDocs(command);
+    return docs ? formatDocsOverview(docs) : null;
   }
 
   private extractCommandsFromQuery(query: string): string[] {
@@ -263,7 +184,13 @@ export class RagEngine {
     // 3. Current working directory (useful context for file operations)
     parts.push(`## Current Directory\n${process.cwd()}`);
 
-    // 4. Available tools summary (internal + MCP)
+    // 4. Project type and task runners (so suggestions use e.g. `pnpm test` or `make build`)
+    const project = await this.project.inspect();
+    if (project) {
+      parts.push(`## Project\n${formatProjectSummary(project)}`);
+    }
+
+    // 5. Available tools summary (internal + MCP)
     const internalTools = this.getInternalTools();
     const mcpTools = await this.mcp.getTools();
     const allToolNames = [
@@ -274,7 +201,7 @@ export class RagEngine {
       parts.push(`## Available Tools\n${allToolNames.join(', ')}`);
     }
 
-    // 5. MCP Resources (if any)
+    // 6. MCP Resources (if any)
     const mcpResources = await this.mcp.getResources(query);
     if (mcpResources.length > 0) {
       parts.push('## Available MCP Resources');
@@ -284,7 +211,7 @@ export class RagEngine {
       });
     }
 
-    return parts.join('\n\n');
+    return this.redactor.redact(parts.join('\n\n'), 'context');
   }
 
   /**
@@ -309,13 +236,86 @@ export class RagEngine {
       session: this.session,
       history: this.history,
       files: this.files,
-      getManPage: (cmd: string) => this.getManPage(cmd)
+      git: this.git,
+      project: this.project,
+      search: this.search,
+      getCommandDocs: (cmd: string) => this.getCommandDocs(cmd),
+      searchShellHistory: (query: string, limit: number) => this.searchShellHistory(query, limit),
+      searchProjectIndex: (query: string, limit: number) => this.searchProjectIndex(query, limit)
     };
 
     return executeInternalTool(toolName, args, context);
   }
 
-  async saveInteraction(prompt: string, response: string) {
-    await this.session.addEntry(prompt, response, process.cwd());
+  /**
+   * Update the shell history index, then find past commands matching a description
+   */
+  async searchShellHistory(query: string, limit: number = 10): Promise<ShellCommandMatch[]> {
+    await updateShellHistoryIndex(this.session, this.history, this.redactor);
+    return this.session.searchShellHistory(query, limit, this.history.shell);
+  }
+
+  /**
+   * Semantic search over the project index (git root, or the current directory).
+   * Returns null if the project hasn't been indexed with `hey-ai index`;
+   * otherwise changed files are re-indexed first.
+   */
+  async searchProjectIndex(query: string, limit: number = 5): Promise<ProjectIndexHit[] | null> {
+    const index = new ProjectIndex((await this.git.getRoot()) || process.cwd(), undefined, this.redactor);
+    try {
+      if (index.getStatus().files === 0) {
+        return null;
+      }
+      try {
+        await index.update();
+      } catch (error) {
+        // A stale index is still useful
+        if (process.env.DEBUG) {
+          console.error('[index] Update failed:', error);
+        }
+      }
+      return await index.search(query, limit);
+    } finally {
+      index.close();
+    }
+  }
+
+  /**
+   * Redact secrets from a tool result (internal or MCP) before it reaches the model
+   */
+  redactToolResult<T extends { content: string; error?: string }>(result: T): T {
+    return {
+      ...result,
+      content: this.redactor.redact(result.content, 'tool results'),
+      error: result.error && this.redactor.redact(result.error, 'tool results')
+    };
+  }
+
+  /**
+   * Number of secrets redacted since the last call, by source
+   */
+  takeRedactionCounts(): Record<string, number> {
+    return this.redactor.takeCounts();
+  }
+
+  async saveInteraction(prompt: string, response: string, metadata: EntryMetadata = {}): Promise<number> {
+    return this.session.addEntry(
+      this.redactor.redact(prompt, 'history'),
+      this.redactor.redact(response, 'history'),
+      process.cwd(),
+      metadata
+    );
+  }
+
+  saveConversationTurn(conversationId: string, messages: StoredMessage[], historyId?: number) {
+    this.session.saveConversationTurn(conversationId, process.cwd(), this.redactor.redactValue(messages, 'history'), historyId);
+  }
+
+  recordExitCode(entryId: number, exitCode: number) {
+    this.session.setExitCode(entryId, exitCode);
+  }
+
+  recordValidation(entryId: number, status: string) {
+    this.session.setValidation(entryId, status);
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * Semantic index of project files, stored per project in
+ * ~/.config/hey-ai/projects/<hash>.db (chunks plus sqlite-vss vectors)
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileContext } from '../context/files.js';
+import { SecretRedactor } from '../context/redactor.js';
+import { loadSqliteVss } from '../context/vss.js';
+import { getEmbedding, getEmbeddings, getEmbeddingDimension } from '../llm/embedding.js';
+
+export interface FileChunk {
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface ProjectIndexHit extends FileChunk {
+  path: string;
+  /** Vector distance, lower is closer */
+  distance: number;
+}
+
+export interface ProjectIndexStats {
+  /** Files (re)indexed in this run */
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  /** Binary or oversized files */
+  skipped: number;
+  chunks: number;
+}
+
+export interface ProjectIndexStatus {
+  root: string;
+  dbPath: string;
+  files: number;
+  chunks: number;
+  /** Milliseconds, null if never indexed */
+  indexedAt: number | null;
+}
+
+// Lines per chunk, and lines shared with the previous chunk for context
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+// Long lines (minified code) would make chunks too big to embed
+const MAX_CHUNK_CHARS = 4000;
+const MAX_FILE_SIZE = 1024 * 1024;
+// Chunks embedded per request
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Split text into overlapping line-based chunks, skipping blank ones
+ */
+export function chunkLines(content: string, size: number = CHUNK_LINES, overlap: number = CHUNK_OVERLAP): FileChunk[] {
+  const lines = content.split('\n');
+  const chunks: FileChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += size - overlap) {
+    const slice = lines.slice(start, start + size);
+    const text = slice.join('\n');
+    if (text.trim()) {
+      chunks.push({
+        startLine: start + 1,
+        endLine: start + slice.length,
+        content: text.length > MAX_CHUNK_CHARS ? text.slice(0, MAX_CHUNK_CHARS) : text,
+      });
+    }
+    if (start + size >= lines.length) break;
+  }
+  return chunks;
+}
+
+export class ProjectIndex {
+  private db: Database.Database;
+  private files: FileContext;
+  readonly dbPath: string;
+
+  /**
+   * File content is redacted before it is embedded (sent to the embedding provider) or stored
+   */
+  constructor(readonly root: string, dbPath?: string, private redactor: SecretRedactor = new SecretRedactor()) {
+    const projectsDir = path.join(os.homedir(), '.config', 'hey-ai', 'projects');
+    const rootHash = crypto.createHash('sha256').update(root).digest('hex').slice(0, 16);
+    this.dbPath = dbPath || path.join(projectsDir, `${rootHash}.db`);
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+
+    this.db = new Database(this.dbPath);
+    this.files = new FileContext(root);
+    this.init();
+  }
+
+  private init() {
+    loadSqliteVss(this.db);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS files (
+        path TEXT PRIMARY KEY,
+        hash TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        mtime INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        content TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_vss USING vss0(
+        embedding(${getEmbeddingDimension()})
+      );
+    `);
+    this.db.prepare('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)').run('root', this.root);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getStatus(): ProjectIndexStatus {
+    const count = (table: string) => (this.db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+    const indexedAt = this.db.prepare("SELECT value FROM meta WHERE key = 'indexed_at'").get() as { value: string } | undefined;
+    return {
+      root: this.root,
+      dbPath: this.dbPath,
+      files: count('files'),
+      chunks: count('chunks'),
+      indexedAt: indexedAt ? parseInt(indexedAt.value, 10) : null,
+    };
+  }
+
+  /**
+   * Index new and changed files and drop deleted ones. Files are compared by
+   * size and mtime first, then by content hash, so touching a file doesn't re-embed it.
+   */
+  async update(options: { rebuild?: boolean; onProgress?: (done: number, total: number) => void } = {}): Promise<ProjectIndexStats> {
+    if (options.rebuild) {
+      this.db.exec('DELETE FROM chunks; DELETE FROM files; DELETE FROM chunks_vss;');
+    }
+
+    const stats: ProjectIndexStats = { indexed: 0, unchanged: 0, removed: 0, skipped: 0, chunks: 0 };
+    const listing = await this.files.listEntries({ depth: Infinity, limit: Infinity });
+    const known = new Map(
+      (this.db.prepare('SELECT path, hash, size, mtime FROM files').all() as { path: string; hash: string; size: number; mtime: number }[])
+        .map(row => [row.path, row])
+    );
+
+    // Files whose chunks are waiting to be embedded
+    let pending: { path: string; hash: string; size: number; mtime: number; chunks: FileChunk[] }[] = [];
+    let pendingChunks = 0;
+    const flush = async () => {
+      if (pending.length === 0) return;
+      await this.storeFiles(pending);
+      stats.indexed += pending.length;
+      stats.chunks += pendingChunks;
+      pending = [];
+      pendingChunks = 0;
+    };
+
+    const seen = new Set<string>();
+    let done = 0;
+    for (const entry of listing.entries) {
+      options.onProgress?.(done++, listing.entries.length);
+      seen.add(entry.path);
+
+      const mtime = Math.floor(entry.mtime);
+      const previous = known.get(entry.path);
+      if (previous && previous.size === entry.size && previous.mtime === mtime) {
+        stats.unchanged++;
+        continue;
+      }
+      if (entry.size > MAX_FILE_SIZE) {
+        stats.skipped++;
+        continue;
+      }
+
+      // Whole files: chunks are capped on their own
+      const file = await this.files.readFile(entry.path, { maxLines: Infinity, maxChars: Infinity, maxLineLength: Infinity });
+      if (file.binary) {
+        stats.skipped++;
+        continue;
+      }
+
+      const hash = crypto.createHash('sha256').update(file.content).digest('hex');
+      if (previous?.hash === hash) {
+        this.db.prepare('UPDATE files SET size = ?, mtime = ? WHERE path = ?').run(entry.size, mtime, entry.path);
+        stats.unchanged++;
+        continue;
+      }
+
+      // The hash is of the original content, so redaction doesn't make files look changed
+      const chunks = chunkLines(this.redactor.redact(file.content, 'project index'));
+      pending.push({ path: entry.path, hash, size: entry.size, mtime, chunks });
+      pendingChunks += chunks.length;
+      if (pendingChunks >= EMBEDDING_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    for (const filePath of known.keys()) {
+      if (!seen.has(filePath)) {
+        this.db.transaction(() => this.removeFile(filePath))();
+        stats.removed++;
+      }
+    }
+
+    this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('indexed_at', String(Date.now()));
+    return stats;
+  }
+
+  /**
+   * Embed the chunks of some files, then replace their rows in one transaction
+   */
+  private async storeFiles(files: { path: string; hash: string; size: number; mtime: number; chunks: FileChunk[] }[]) {
+    const texts = files.flatMap(file => file.chunks.map(chunk => `${file.path}\n${chunk.content}`));
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...await getEmbeddings(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+    }
+
+    const insertChunk = this.db.prepare('INSERT INTO chunks (path, start_line, end_line, content) VALUES (?, ?, ?, ?)');
+    const insertVector = this.db.prepare('INSERT INTO chunks_vss (rowid, embedding) VALUES (?, ?)');
+    const upsertFile = this.db.prepare('INSERT OR REPLACE INTO files (path, hash, size, mtime) VALUES (?, ?, ?, ?)');
+
+    let next = 0;
+    this.db.transaction(() => {
+      for (const file of files) {
+        this.removeFile(file.path);
+        for (const chunk of file.chunks) {
+          const result = insertChunk.run(file.path, chunk.startLine, chunk.endLine, chunk.content);
+          insertVector.run(result.lastInsertRowid, JSON.stringify(embeddings[next++]));
+        }
+        upsertFile.run(file.path, file.hash, file.size, file.mtime);
+      }
+    })();
+  }
+
+  private removeFile(filePath: string) {
+    const ids = this.db.prepare('SELECT id FROM chunks WHERE path = ?').all(filePath) as { id: number }[];
+    const deleteVector = this.db.prepare('DELETE FROM chunks_vss WHERE rowid = ?');
+    for (const { id } of ids) {
+      deleteVector.run(id);
+    }
+    this.db.prepare('DELETE FROM chunks WHERE path = ?').run(filePath);
+    this.db.prepare('DELETE FROM files WHERE path = ?').run(filePath);
+  }
+
+  /**
+   * Chunks closest in meaning to the query
+   */
+  async search(query: string, limit: number = 5): Promise<ProjectIndexHit[]> {
+    if (this.getStatus().chunks === 0) {
+      return [];
+    }
+
+    const queryEmbedding = await getEmbedding(query);
+    const rows = this.db.prepare(`
+      SELECT c.path, c.start_line, c.end_line, c.content, vss.distance
+      FROM (
+        SELECT rowid, distance
+        FROM chunks_vss
+        WHERE vss_search(embedding, vss_search_params(?, ?))
+      ) AS vss
+      JOIN chunks c ON c.id = vss.rowid
+      ORDER BY vss.distance
+    `).all(JSON.stringify(queryEmbedding), limit) as { path: string; start_line: number; end_line: number; content: string; distance: number }[];
+
+    return rows.map(row => ({
+      path: row.path,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      content: row.content,
+      distance: row.distance,
+    }));
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Check the flags in suggested shell code against the installed tools' docs
+ * (man page OPTIONS, or --help output cached by an earlier lookup), to catch
+ * invented or wrong-platform flags.
+ */
+
+import { parseShellCommands, unwrap } from './risk.js';
+import { findFlag, normalizeFlag, splitCommandName, type CommandDocs } from '../context/docs.js';
+
+export interface FlagWarning {
+  /** Command the docs were checked for, e.g. `fd` or `git commit` */
+  command: string;
+  flag: string;
+  message: string;
+}
+
+export type DocsLookup = (command: string) => Promise<CommandDocs | null>;
+
+// Shell builtins and keywords, which have no docs of their own
+const SKIPPED_COMMANDS = new Set([
+  '.', ':', '[', '[[', 'alias', 'break', 'builtin', 'cd', 'command', 'continue', 'declare', 'echo',
+  'eval', 'exec', 'exit', 'export', 'false', 'function', 'local', 'printf', 'read', 'return', 'set',
+  'shift', 'source', 'test', 'true', 'typeset', 'unset', 'fi', 'done', 'esac', 'for', 'case', 'in',
+]);
+
+// Tools whose first argument is a subcommand with its own options (`git commit -m`)
+const SUBCOMMAND_TOOLS = new Set([
+  'git', 'docker', 'podman', 'kubectl', 'helm', 'npm', 'pnpm', 'yarn', 'bun', 'cargo', 'go', 'gh',
+  'brew', 'apt', 'apt-get', 'dnf', 'systemctl', 'journalctl', 'terraform', 'uv', 'poetry', 'pip',
+]);
+
+// Subcommand groups that have subcommands themselves (`docker compose up`)
+const SUBCOMMAND_GROUPS: Record<string, Set<string>> = {
+  docker: new Set(['compose', 'container', 'image', 'network', 'volume', 'system', 'buildx', 'context']),
+  gh: new Set(['pr', 'issue', 'repo', 'run', 'release', 'workflow', 'gist']),
+};
+
+// Docs lookups per suggested block; each may run man the first time
+const MAX_COMMANDS_CHECKED = 10;
+
+/**
+ * Known flags that mean something different per platform, detected from the docs
+ */
+const FLAG_PITFALLS: {
+  command: string;
+  check: (args: string[], docs: CommandDocs) => string | null;
+}[] = [
+  {
+    // BSD sed takes the backup suffix as a separate, mandatory argument
+    command: 'sed',
+    check: (args, docs) => {
+      const index = args.indexOf('-i');
+      if (index < 0 || args[index + 1] === '') return null;
+      const description = findFlag(docs, '-i');
+      if (!description || !/^-i\s+extension/.test(description)) return null;
+      const platform = process.platform === 'darwin' ? 'macOS' : 'BSD sed';
+      return `\`sed -i\` on ${platform} requires an argument: use \`sed -i '' ...\`, otherwise the next word is taken as the backup suffix`;
+    }
+  },
+];
+
+/**
+ * Whether the flag appears anywhere in the docs as a word, e.g. in
+ * `-name pattern` (find) or "combined with -z"
+ */
+function isMentioned(docs: CommandDocs, flag: string): boolean {
+  const escaped = flag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[\\s,\\[|/("'\`])${escaped}(?=$|[\\s,=\\[<|/:).'"\`\\]])`, 'm');
+  return docs.sections.some(section => pattern.test(section.content));
+}
+
+function isDocumented(docs: CommandDocs, flag: string): boolean {
+  return findFlag(docs, flag) !== null || isMentioned(docs, flag);
+}
+
+/**
+ * Whether the docs show a value after the flag: `-o file`, `-e PATTERN`,
+ * `-n, --lines=[-]NUM`
+ */
+function takesValue(docs: CommandDocs, flag: string): boolean {
+  const description = findFlag(docs, flag);
+  if (!description) return false;
+  const term = description.split('\n')[0].split(/\s{2,}|\t/)[0];
+  const escaped = flag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`${escaped}(\\s+|=|\\[=?)[^\\s,-]`).test(term) || /--[\w-]+(=|\[=)/.test(term);
+}
+
+/**
+ * Whether the flag takes the rest of the line, like `fd --exec <cmd>...`
+ */
+function takesRest(docs: CommandDocs, flag: string): boolean {
+  const description = findFlag(docs, flag);
+  if (!description) return false;
+  const term = description.split('\n')[0].split(/\s{2,}|\t/)[0];
+  return /[>\w]\.\.\.$/.test(term);
+}
+
+/**
+ * Flags in the arguments that the docs don't mention. Combined short flags
+ * (`-la`) are checked one by one; attached values (`-n5`, `-i.bak`) are ignored.
+ */
+function findUnknownFlags(args: string[], docs: CommandDocs): string[] {
+  const unknown: string[] = [];
+
+  for (const arg of args) {
+    // End of options
+    if (arg === '--') break;
+    // Operands, stdin, negative numbers (`-7`), signal names (`-TERM`) and variables
+    if (!/^-[A-Za-z-]/.test(arg) || /^-[A-Z]{2,}$/.test(arg) || arg.includes('$')) continue;
+
+    if (arg.startsWith('--')) {
+      const flag = normalizeFlag(arg);
+      if (flag !== '--' && !isDocumented(docs, flag)) unknown.push(flag);
+      // The remaining arguments are a command of their own
+      if (takesRest(docs, flag)) break;
+      continue;
+    }
+
+    // Single-dash long options (`find -name`, `ffmpeg -vf`)
+    if (isDocumented(docs, arg)) {
+      if (takesRest(docs, arg)) break;
+      continue;
+    }
+
+    const letters = arg.slice(1).match(/^[A-Za-z]+/)![0];
+    for (const letter of letters) {
+      const flag = `-${letter}`;
+      if (!isDocumented(docs, flag)) {
+        unknown.push(flag);
+        break;
+      }
+      // The rest is the flag's value (`-ofile`)
+      if (takesValue(docs, flag)) break;
+    }
+  }
+  return [...new Set(unknown)];
+}
+
+/**
+ * Docs for the most specific documented command: `docker compose up`,
+ * `git commit`, then the tool itself. Returns the remaining arguments.
+ */
+async function lookupDocs(name: string, args: string[], getDocs: DocsLookup): Promise<{ command: string; docs: CommandDocs; args: string[] } | null> {
+  const candidates: { command: string; args: string[] }[] = [];
+  if (SUBCOMMAND_TOOLS.has(name)) {
+    // `git -C dir status`: can't tell options of the tool from the subcommand
+    if (args[0]?.startsWith('-')) return null;
+    if (args[0] && splitCommandName(args[0])) {
+      if (args[1] && SUBCOMMAND_GROUPS[name]?.has(args[0]) && splitCommandName(args[1])) {
+        candidates.push({ command: `${name} ${args[0]} ${args[1]}`, args: args.slice(2) });
+      }
+      candidates.push({ command: `${name} ${args[0]}`, args: args.slice(1) });
+    }
+  }
+  candidates.push({ command: name, args });
+
+  for (const candidate of candidates) {
+    const docs = await getDocs(candidate.command);
+    if (docs) return { ...candidate, docs };
+  }
+  return null;
+}
+
+/**
+ * Check every command in a code block against its documentation.
+ * Commands without man page or --help docs (functions, unknown tools) are
+ * skipped, as are tldr pages, which only show examples.
+ */
+export async function checkCommandFlags(code: string, getDocs: DocsLookup): Promise<FlagWarning[]> {
+  const warnings: FlagWarning[] = [];
+  const checked = new Set<string>();
+
+  // Functions defined in the block: `name() {` or `function name {`
+  const defined = new Set(
+    [...code.matchAll(/(?:^|[\s;{])(?:function\s+([\w-]+)|([A-Za-z_][\w-]*)\s*\(\s*\))/gm)].map(match => match[1] || match[2])
+  );
+
+  for (const command of parseShellCommands(code)) {
+    const { name, args } = unwrap(command.argv);
+    if (!name || SKIPPED_COMMANDS.has(name) || defined.has(name) || !splitCommandName(name)) continue;
+    if (!args.some(arg => arg.startsWith('-'))) continue;
+
+    if (checked.size >= MAX_COMMANDS_CHECKED && !checked.has(name)) break;
+    checked.add(name);
+
+    const found = await lookupDocs(name, args, getDocs);
+    if (!found || found.docs.source === 'tldr') continue;
+
+    for (const flag of findUnknownFlags(found.args, found.docs)) {
+      if (warnings.some(warning => warning.command === found.command && warning.flag === flag)) continue;
+      warnings.push({
+        command: found.command,
+        flag,
+        message: `unknown flag \`${flag}\` for \`${found.command}\` (not in its ${found.docs.source === 'man' ? 'man page' : '--help output'})`
+      });
+    }
+
+    for (const pitfall of FLAG_PITFALLS) {
+      if (pitfall.command !== name) continue;
+      const message = pitfall.check(args, found.docs);
+      if (message && !warnings.some(warning => warning.message === message)) {
+        warnings.push({ command: name, flag: '', message });
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,404 @@
+/**
+ * Flag destructive commands in suggested shell code before it is copied or run.
+ */
+
+import path from 'node:path';
+import type { RiskPolicy, RiskRuleConfig } from '../config.js';
+
+export type RiskSeverity = 'medium' | 'high';
+export type RiskLevel = 'low' | RiskSeverity;
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * A simple command parsed from shell code
+ */
+export interface ShellCommand {
+  /** Words with quotes removed (leading keywords like `then` or `{` dropped) */
+  argv: string[];
+  /** Source text of the command */
+  text: string;
+  /** Next command in the pipeline, if output is piped */
+  pipedInto?: ShellCommand;
+}
+
+export interface RiskFinding {
+  rule: string;
+  severity: RiskSeverity;
+  message: string;
+  command: string;
+}
+
+interface RiskRule {
+  id: string;
+  severity: RiskSeverity;
+  message: string;
+  matches: (command: ShellCommand) => boolean;
+}
+
+// Words that start a compound statement rather than a command
+const LEADING_KEYWORDS = new Set(['{', '}', 'then', 'do', 'else', 'elif', 'if', 'while', 'until', '!']);
+
+// Commands that run their arguments as another command
+const WRAPPERS = new Set(['sudo', 'doas', 'env', 'nohup', 'time', 'command', 'builtin', 'exec', 'nice', 'xargs']);
+
+// Wrapper options that take a value (sudo -u root, xargs -I {}, nice -n 10)
+const WRAPPER_OPTIONS_WITH_VALUE = new Set(['-u', '-g', '-C', '-I', '-n', '-P', '-L', '-d']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+
+/**
+ * Index of the `)` closing the `(` at `open`, skipping quoted text, or the end of the code
+ */
+function findClosingParen(code: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < code.length; i++) {
+    const c = code[i];
+    if (quote) {
+      if (c === quote) quote = null;
+      else if (c === '\\' && quote === '"') i++;
+    } else if (c === '\\') {
+      i++;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Split shell code into simple commands, following quotes, comments,
+ * line continuations, pipes and the `;`, `&&`, `||`, `&` separators.
+ * Subshells and command substitutions are treated as separate commands.
+ * A process substitution (`<(cmd)`) stays one argument of its command, and
+ * the commands inside it are returned as well.
+ */
+export function parseShellCommands(code: string): ShellCommand[] {
+  const commands: ShellCommand[] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let start = -1;
+  let quote: string | null = null;
+  // Command whose output is piped into the next one
+  let piping: ShellCommand | undefined;
+
+  const markStart = (index: number) => {
+    if (start < 0) start = index;
+  };
+
+  const endWord = () => {
+    if (inWord) {
+      words.push(word);
+      word = '';
+      inWord = false;
+    }
+  };
+
+  const endCommand = (end: number, pipe: boolean) => {
+    endWord();
+    while (words.length > 0 && LEADING_KEYWORDS.has(words[0])) {
+      words.shift();
+    }
+
+    if (words.length > 0) {
+      const command: ShellCommand = { argv: words, text: code.slice(start, end).trim() };
+      if (piping) piping.pipedInto = command;
+      commands.push(command);
+      piping = pipe ? command : undefined;
+    } else if (!pipe) {
+      piping = undefined;
+    }
+
+    words = [];
+    start = -1;
+  };
+
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i];
+
+    if (quote) {
+      if (c === quote) {
+        quote = null;
+      } else if (c === '\\' && quote === '"' && i + 1 < code.length) {
+        word += code[++i];
+      } else {
+        word += c;
+      }
+      continue;
+    }
+
+    if (c === '\\') {
+      if (code[i + 1] === '\n') {
+        // Line continuation
+        endWord();
+      } else {
+        markStart(i);
+        inWord = true;
+        word += code[i + 1] ?? '';
+      }
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      markStart(i);
+      quote = c;
+      inWord = true;
+      continue;
+    }
+
+    if (c === '#' && !inWord) {
+      while (i + 1 < code.length && code[i + 1] !== '\n') i++;
+      continue;
+    }
+
+    if (c === '|') {
+      if (code[i + 1] === '|') {
+        endCommand(i, false);
+        i++;
+      } else {
+        endCommand(i, true);
+        if (code[i + 1] === '&') i++;
+      }
+      continue;
+    }
+
+    // `&` in redirections (2>&1, &>file) is part of the word
+    if (c === '&' && code[i - 1] !== '>' && code[i + 1] !== '>') {
+      endCommand(i, false);
+      if (code[i + 1] === '&') i++;
+      continue;
+    }
+
+    if ((c === '<' || c === '>') && code[i + 1] === '(') {
+      const close = findClosingParen(code, i + 1);
+      const inner = code.slice(i + 2, close);
+      commands.push(...parseShellCommands(inner));
+      markStart(i);
+      inWord = true;
+      word += `${c}(${inner})`;
+      i = close;
+      continue;
+    }
+
+    if (c === ';' || c === '\n' || c === '(' || c === ')') {
+      endCommand(i, false);
+      continue;
+    }
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      endWord();
+      continue;
+    }
+
+    markStart(i);
+    inWord = true;
+    word += c;
+  }
+  endCommand(code.length, false);
+
+  return commands;
+}
+
+/**
+ * Strip variable assignments and wrappers like sudo or xargs,
+ * returning the command name (basename) and its arguments
+ */
+export function unwrap(argv: string[]): { name: string; args: string[] } {
+  let i = 0;
+  while (i < argv.length) {
+    const word = argv[i];
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+    } else if (WRAPPERS.has(path.basename(word))) {
+      i++;
+      while (i < argv.length && argv[i].startsWith('-')) {
+        i += WRAPPER_OPTIONS_WITH_VALUE.has(argv[i]) ? 2 : 1;
+      }
+    } else {
+      break;
+    }
+  }
+
+  return { name: argv[i] ? path.basename(argv[i]) : '', args: argv.slice(i + 1) };
+}
+
+/**
+ * Whether a short flag (possibly combined, like -rf) or one of the long flags is present
+ */
+function hasFlag(args: string[], short: string, long: string[] = []): boolean {
+  return args.some(arg =>
+    long.includes(arg) || (/^-[A-Za-z]+$/.test(arg) && arg.slice(1).includes(short))
+  );
+}
+
+function isRecursive(args: string[]): boolean {
+  return hasFlag(args, 'r', ['--recursive']) || hasFlag(args, 'R');
+}
+
+const BUILTIN_RULES: RiskRule[] = [
+  {
+    id: 'rm-recursive-force',
+    severity: 'high',
+    message: 'Deletes files recursively without asking',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      return name === 'rm' && isRecursive(args) && hasFlag(args, 'f', ['--force']);
+    }
+  },
+  {
+    id: 'dd-write',
+    severity: 'high',
+    message: 'dd overwrites its output target (of=) byte by byte',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      return name === 'dd' && args.some(arg => arg.startsWith('of='));
+    }
+  },
+  {
+    id: 'mkfs',
+    severity: 'high',
+    message: 'Formats a filesystem, erasing everything on the device',
+    matches: command => /^(mkfs(\..+)?|mke2fs|wipefs)$/.test(unwrap(command.argv).name)
+  },
+  {
+    id: 'block-device-write',
+    severity: 'high',
+    message: 'Writes directly to a block device',
+    matches: command => />\s*\/dev\/(sd|hd|nvme|disk|mmcblk|xvd|vd)/.test(command.text)
+  },
+  {
+    id: 'chmod-777-recursive',
+    severity: 'high',
+    message: 'Makes everything world-writable recursively',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      return name === 'chmod' && isRecursive(args) && args.some(arg => /^(0?777|a\+rwx|ugo\+rwx)$/.test(arg));
+    }
+  },
+  {
+    id: 'pipe-to-shell',
+    severity: 'high',
+    message: 'Runs a downloaded script without reviewing it',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      // sh -c "$(curl ...)" and bash <(curl ...)
+      if (SHELLS.has(name) && args.some(arg => /[$<]\(\s*(curl|wget)\b/.test(arg))) {
+        return true;
+      }
+      if (name !== 'curl' && name !== 'wget') {
+        return false;
+      }
+      for (let next = command.pipedInto; next; next = next.pipedInto) {
+        if (SHELLS.has(unwrap(next.argv).name)) return true;
+      }
+      return false;
+    }
+  },
+  {
+    id: 'git-force-push',
+    severity: 'high',
+    message: 'Force pushing rewrites remote history',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      return name === 'git' && args.includes('push') &&
+        args.some(arg => arg === '-f' || arg.startsWith('--force') || /^\+[^+]/.test(arg));
+    }
+  },
+  {
+    id: 'git-discard-changes',
+    severity: 'medium',
+    message: 'Discards uncommitted changes',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      if (name !== 'git') return false;
+      return (args.includes('reset') && args.includes('--hard')) ||
+        (args.includes('clean') && hasFlag(args, 'f', ['--force']));
+    }
+  },
+  {
+    id: 'sql-drop',
+    severity: 'high',
+    message: 'Drops or truncates database objects',
+    matches: command => /\b(drop\s+(table|database|schema)|truncate\s+(table\s+)?\w)/i.test(command.text)
+  },
+  {
+    id: 'find-delete',
+    severity: 'medium',
+    message: 'Deletes every file find matches',
+    matches: command => {
+      const { name, args } = unwrap(command.argv);
+      if (name !== 'find') return false;
+      return args.includes('-delete') ||
+        args.some((arg, i) => (arg === '-exec' || arg === '-execdir') && path.basename(args[i + 1] || '') === 'rm');
+    }
+  },
+];
+
+/**
+ * Compile a user-supplied pattern, ignoring (and reporting) invalid ones
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    console.error(`[risk] Ignoring invalid pattern in riskPolicy: ${pattern}`);
+    return null;
+  }
+}
+
+function toRule(config: RiskRuleConfig): RiskRule | null {
+  const regex = compilePattern(config.pattern);
+  if (!regex) return null;
+  return {
+    id: config.id,
+    severity: config.severity,
+    message: config.message || `Matches custom rule "${config.id}"`,
+    matches: command => regex.test(command.text)
+  };
+}
+
+/**
+ * Check shell code against the built-in rules and the configured policy
+ */
+export function analyzeCommandRisk(code: string, policy: RiskPolicy = {}): RiskFinding[] {
+  if (policy.enabled === false) {
+    return [];
+  }
+
+  const disabled = new Set(policy.disabledRules || []);
+  const customRules = (policy.rules || []).map(toRule).filter((rule): rule is RiskRule => rule !== null);
+  const rules = [...BUILTIN_RULES, ...customRules].filter(rule => !disabled.has(rule.id));
+  const allowed = (policy.allow || []).map(compilePattern).filter((regex): regex is RegExp => regex !== null);
+
+  const findings: RiskFinding[] = [];
+  for (const command of parseShellCommands(code)) {
+    if (allowed.some(regex => regex.test(command.text))) continue;
+
+    for (const rule of rules) {
+      if (rule.matches(command)) {
+        findings.push({ rule: rule.id, severity: rule.severity, message: rule.message, command: command.text });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Overall risk of a set of findings
+ */
+export function getRiskLevel(findings: RiskFinding[]): RiskLevel {
+  if (findings.some(finding => finding.severity === 'high')) return 'high';
+  return findings.length > 0 ? 'medium' : 'low';
+}
+
+export function maxRiskLevel(...levels: RiskLevel[]): RiskLevel {
+  return RISK_LEVELS[Math.max(...levels.map(level => RISK_LEVELS.indexOf(level)))];
+}
@@ -0,0 +1,54 @@
+/**
+ * Execute suggested shell code in the user's shell.
+ */
+
+import { execa } from 'execa';
+
+/**
+ * Result of running a snippet
+ */
+export interface RunResult {
+  exitCode: number;
+  stderr: string;
+  durationMs: number;
+}
+
+// Keep only the tail of stderr; that's where the useful error usually is
+const MAX_CAPTURED_STDERR = 4000;
+
+/**
+ * Get the shell used to run suggested code
+ */
+export function getUserShell(): string {
+  return process.env.SHELL || '/bin/sh';
+}
+
+/**
+ * Run a snippet with `$SHELL -c`, streaming its output to the terminal.
+ * stderr is captured as well so failures can be sent back to the model.
+ */
+export async function runInShell(code: string, shell: string = getUserShell()): Promise<RunResult> {
+  const startTime = Date.now();
+
+  const result = await execa(shell, ['-c', code], {
+    stdin: 'inherit',
+    stdout: 'inherit',
+    stderr: ['pipe', 'inherit'],
+    reject: false,
+  });
+
+  let stderr = typeof result.stderr === 'string' ? result.stderr : '';
+  // The shell itself failed to start (e.g. $SHELL points to a missing binary)
+  if (result.exitCode === undefined && !stderr) {
+    stderr = result.shortMessage || '';
+  }
+  if (stderr.length > MAX_CAPTURED_STDERR) {
+    stderr = stderr.slice(-MAX_CAPTURED_STDERR);
+  }
+
+  return {
+    exitCode: result.exitCode ?? 127,
+    stderr,
+    durationMs: Date.now() - startTime
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Syntax check for suggested code: `zsh -n` / `bash -n` / `sh -n` for the code
+ * block's language, plus shellcheck when it is installed (it doesn't support zsh).
+ */
+
+import path from 'node:path';
+import { execa } from 'execa';
+import { resolveCommandPath } from '../context/commands.js';
+import { getUserShell } from './runner.js';
+
+export type ShellDialect = 'zsh' | 'bash' | 'sh';
+
+export interface ShellDiagnostic {
+  source: 'shell' | 'shellcheck';
+  severity: 'error' | 'warning';
+  /** 1-based line in the code block, when the checker reports one */
+  line?: number;
+  message: string;
+  /** shellcheck code, e.g. SC2086 */
+  code?: string;
+}
+
+/**
+ * Outcome of the check, stored with the session entry
+ */
+export type ValidationStatus = 'ok' | 'warnings' | 'errors' | 'skipped';
+
+export interface SyntaxCheckResult {
+  dialect: ShellDialect;
+  status: ValidationStatus;
+  diagnostics: ShellDiagnostic[];
+  /** Checkers that ran, e.g. `bash -n` and `shellcheck` */
+  checkedWith: string[];
+}
+
+const CHECK_TIMEOUT_MS = 5000;
+// Shown to the user and sent back to the model; the first few are what matter
+const MAX_DIAGNOSTICS = 20;
+
+/**
+ * Shell the code block is written for: the fence language, else the user's shell
+ */
+export function resolveDialect(language?: string): ShellDialect {
+  if (language === 'zsh' || language === 'bash' || language === 'sh') {
+    return language;
+  }
+  const shell = path.basename(getUserShell());
+  return shell === 'zsh' || shell === 'bash' ? shell : 'sh';
+}
+
+/**
+ * Parse `bash -n` / `zsh -n` errors read from stdin:
+ * "bash: line 5: syntax error near unexpected token `}'", "zsh:3: parse error near `}'"
+ */
+export function parseShellErrors(stderr: string): ShellDiagnostic[] {
+  const diagnostics: ShellDiagnostic[] = [];
+  for (const raw of stderr.split('\n')) {
+    const text = raw.trim();
+    if (!text) continue;
+
+    const match = text.match(/^[\w./-]+:\s*(?:line\s+)?(\d+):\s*(.*)$/);
+    const diagnostic: ShellDiagnostic = match
+      ? { source: 'shell', severity: 'error', line: parseInt(match[1], 10), message: match[2] }
+      : { source: 'shell', severity: 'error', message: text.replace(/^[\w./-]+:\s*/, '') };
+
+    // bash repeats the offending line after the error ("bash: line 5: `}'")
+    const previous = diagnostics[diagnostics.length - 1];
+    if (previous && previous.line === diagnostic.line && /^`.*'$/.test(diagnostic.message)) continue;
+    diagnostics.push(diagnostic);
+  }
+  return diagnostics;
+}
+
+/**
+ * Parse `shellcheck --format=json1` output
+ */
+export function parseShellcheckOutput(stdout: string): ShellDiagnostic[] {
+  let comments: { line: number; level: string; code: number; message: string }[];
+  try {
+    comments = JSON.parse(stdout).comments || [];
+  } catch {
+    return [];
+  }
+  return comments.map(comment => ({
+    source: 'shellcheck',
+    severity: comment.level === 'error' ? 'error' : 'warning',
+    line: comment.line,
+    message: comment.message,
+    code: `SC${comment.code}`,
+  }));
+}
+
+/**
+ * Check a code block without running it. Checkers that aren't installed are skipped;
+ * only syntax errors (from the shell or shellcheck's error level) make the status `errors`.
+ */
+export async function checkShellSyntax(code: string, language?: string): Promise<SyntaxCheckResult> {
+  const dialect = resolveDialect(language);
+  const diagnostics: ShellDiagnostic[] = [];
+  const checkedWith: string[] = [];
+
+  const shell = resolveCommandPath(dialect);
+  if (shell) {
+    const result = await execa(shell, ['-n'], {
+      input: code,
+      reject: false,
+      timeout: CHECK_TIMEOUT_MS,
+      env: { ...process.env, LC_ALL: 'C' },
+    });
+    if (!result.timedOut) {
+      checkedWith.push(`${dialect} -n`);
+      if (result.exitCode !== 0) {
+        const errors = parseShellErrors(typeof result.stderr === 'string' ? result.stderr : '');
+        if (errors.length === 0) {
+          errors.push({ source: 'shell', severity: 'error', message: `${dialect} -n exited with ${result.exitCode}` });
+        }
+        diagnostics.push(...errors);
+      }
+    }
+  }
+
+  const shellcheck = dialect !== 'zsh' ? resolveCommandPath('shellcheck') : null;
+  if (shellcheck) {
+    // Style and info notes are left out, they would drown the real problems
+    const result = await execa(shellcheck, ['--format=json1', `--shell=${dialect}`, '--severity=warning', '-'], {
+      input: code,
+      reject: false,
+      timeout: CHECK_TIMEOUT_MS,
+    });
+    if (!result.timedOut && typeof result.stdout === 'string' && result.stdout) {
+      checkedWith.push('shellcheck');
+      diagnostics.push(...parseShellcheckOutput(result.stdout));
+    }
+  }
+
+  let status: ValidationStatus = 'ok';
+  if (checkedWith.length === 0) {
+    status = 'skipped';
+  } else if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+    status = 'errors';
+  } else if (diagnostics.length > 0) {
+    status = 'warnings';
+  }
+
+  return { dialect, status, diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS), checkedWith };
+}
+
+/**
+ * One diagnostic per line, e.g. "line 5: syntax error near unexpected token `}' (bash -n)"
+ */
+export function formatDiagnostic(diagnostic: ShellDiagnostic, dialect: ShellDialect): string {
+  const location = diagnostic.line ? `line ${diagnostic.line}: ` : '';
+  const source = diagnostic.source === 'shellcheck' ? diagnostic.code : `${dialect} -n`;
+  return `${location}${diagnostic.message} (${source})`;
+}
@@ -5,9 +5,16 @@
  */
 
 import path from 'node:path';
-import type { SessionHistory, SearchResult } from '../context/session.js';
-import type { ZshHistory, HistoryEntry } from '../context/history.js';
-import type { FileContext } from '../context/files.js';
+import type { SessionHistory, SearchResult, ShellCommandMatch } from '../context/session.js';
+import { queryHistory, type HistoryProvider, type HistoryMatch, type HistorySort } from '../context/history.js';
+import { parseDateOption } from '../utils/dates.js';
+import { formatBytes } from '../utils/format.js';
+import { isContainedGlob, type FileContext, type FileSort } from '../context/files.js';
+import type { GitContext, GitFileChange } from '../context/git.js';
+import type { ProjectInspector } from '../context/project.js';
+import type { ProjectSearch } from '../context/search.js';
+import type { ProjectIndexHit } from '../rag/project-index.js';
+import { findFlag, findSection, formatDocsOverview, normalizeFlag, type CommandDocs } from '../context/docs.js';
 import type { McpToolDef } from '../llm/wrapper.js';
 
 /**
@@ -15,9 +22,15 @@ import type { McpToolDef } from '../llm/wrapper.js';
  */
 export interface InternalToolContext {
   session: SessionHistory;
-  history: ZshHistory;
+  history: HistoryProvider;
   files: FileContext;
-  getManPage: (command: string) => Promise<string | null>;
+  git: GitContext;
+  project: ProjectInspector;
+  search: ProjectSearch;
+  getCommandDocs: (command: string) => Promise<CommandDocs | null>;
+  searchShellHistory: (query: string, limit: number) => Promise<ShellCommandMatch[]>;
+  /** Null when the project hasn't been indexed */
+  searchProjectIndex: (query: string, limit: number) => Promise<ProjectIndexHit[] | null>;
 }
 
 /**
@@ -92,41 +105,105 @@ const searchSessionHistory: InternalTool = {
 
 /**
  * Tool: get_recent_commands
- * Get recent terminal commands from zsh history
+ * Get recent terminal commands from the user's shell history (zsh, bash or fish),
+ * optionally filtered by date range and pattern and ranked by frequency or duration
  */
 const getRecentCommands: InternalTool = {
   name: 'get_recent_commands',
-  description: 'Get recent terminal commands the user has executed. Use when discussing terminal history, debugging command issues, or when the user asks about recent actions.',
+  description: 'Get terminal commands the user has executed. Without filters returns the most recent ones; use since/until, pattern and sort to answer questions like "what docker command did I run yesterday" or "which commands take longest".',
   parameters: {
     type: 'object',
     properties: {
       count: {
         type: 'number',
-        description: 'Number of recent commands to retrieve (default: 10, max: 50)'
+        description: 'Number of commands to retrieve (default: 10, max: 50)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only commands run after this time: ISO date, "today", "yesterday" or relative like "2h", "3d", "1w"'
+      },
+      until: {
+        type: 'string',
+        description: 'Only commands run up to this time (same formats as since; a day counts in full)'
+      },
+      pattern: {
+        type: 'string',
+        description: 'Only commands containing this text (case-insensitive)'
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Treat pattern as a regular expression'
+      },
+      unique: {
+        type: 'boolean',
+        description: 'Only return the most recent occurrence of each command'
+      },
+      sort: {
+        type: 'string',
+        enum: ['recent', 'frequency', 'duration'],
+        description: 'recent (default, chronological), frequency (most used first) or duration (slowest first)'
       }
     }
   },
   execute: async (args, context): Promise<InternalToolResult> => {
     try {
       const count = Math.min(Math.max((args.count as number) || 10, 1), 50);
+      const sort = (args.sort as HistorySort | undefined) || 'recent';
+      const isQuery = Boolean(args.since || args.until || args.pattern || args.unique) || sort !== 'recent';
+
+      let entries: HistoryMatch[];
+      if (!isQuery) {
+        entries = (await context.history.getLastEntries(count)).map(e => ({ ...e, count: 1 }));
+      } else {
+        let pattern: string | RegExp | undefined = args.pattern as string | undefined;
+        if (pattern && args.regex) {
+          try {
+            pattern = new RegExp(pattern, 'i');
+          } catch {
+            return {
+              success: false,
+              content: '',
+              error: `Invalid regular expression: ${pattern}`
+            };
+          }
+        }
 
-      const entries: HistoryEntry[] = await context.history.getLastEntries(count);
+        entries = queryHistory(await context.history.getEntries(), {
+          since: args.since ? parseDateOption(args.since as string) / 1000 : undefined,
+          until: args.until ? parseDateOption(args.until as string, { endOfDay: true }) / 1000 : undefined,
+          pattern,
+          unique: Boolean(args.unique),
+          sort,
+          limit: count
+        });
+      }
 
       if (entries.length === 0) {
         return {
           success: true,
-          content: 'No terminal history found.'
+          content: isQuery ? 'No matching terminal commands found.' : 'No terminal history found.'
         };
       }
 
       const formatted = entries.map((e, i) => {
-        const date = new Date(e.timestamp * 1000).toLocaleString();
-        return `${i + 1}. \`${e.command}\` (${date})`;
+        const details: string[] = [];
+        // Plain history files don't record when a command ran
+        if (e.timestamp) details.push(new Date(e.timestamp * 1000).toLocaleString());
+        if (sort === 'duration' || e.duration > 0) details.push(`took ${e.duration}s`);
+        if (e.count > 1) details.push(`run ${e.count} times`);
+        return `${i + 1}. \`${e.command}\`${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
       }).join('\n');
 
+      const heading = isQuery
+        ? `Matching terminal commands (${sort === 'recent' ? 'oldest first' : `sorted by ${sort}`})`
+        : 'Recent terminal commands';
+      const durationNote = sort === 'duration' && entries.every(e => e.duration === 0)
+        ? `\n\nNote: ${context.history.shell} history does not record durations (zsh needs EXTENDED_HISTORY).`
+        : '';
+
       return {
         success: true,
-        content: `Recent terminal commands:\n\n${formatted}`
+        content: `${heading}:\n\n${formatted}${durationNote}`
       };
     } catch (error) {
       return {
@@ -138,74 +215,340 @@ const getRecentCommands: InternalTool = {
   }
 };
 
+/**
+ * Tool: search_shell_history
+ * Find past terminal commands by description using the shell history index
+ */
+const searchShellHistory: InternalTool = {
+  name: 'search_shell_history',
+  description: 'Search the user\'s entire shell history by description (keyword + semantic). Use when the user wants to recall a command they ran before, e.g. "that ffmpeg command from last month".',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Description of the command to find (e.g. "convert video to gif")'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of commands to return (default: 10, max: 30)'
+      }
+    },
+    required: ['query']
+  },
+  execute: async (args, context): Promise<InternalToolResult> => {
+    try {
+      const query = args.query as string;
+      const limit = Math.min(Math.max((args.limit as number) || 10, 1), 30);
+
+      const results = await context.searchShellHistory(query, limit);
+
+      if (results.length === 0) {
+        return {
+          success: true,
+          content: 'No matching commands found in shell history.'
+        };
+      }
+
+      const formatted = results.map((r, i) => {
+        const details = [`relevance: ${(r.score * 100).toFixed(0)}%`];
+        if (r.timestamp) details.push(`last run ${new Date(r.timestamp * 1000).toLocaleString()}`);
+        if (r.count > 1) details.push(`run ${r.count} times`);
+        return `${i + 1}. \`${r.command}\` (${details.join(', ')})`;
+      }).join('\n');
+
+      return {
+        success: true,
+        content: `Past commands matching "${query}":\n\n${formatted}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to search shell history: ${error}`
+      };
+    }
+  }
+};
+
+/**
+ * Resolve a path argument, or null if it points outside the current directory
+ */
+function resolveWithinCwd(filePath: string): string | null {
+  const cwd = process.cwd();
+  const resolvedPath = path.resolve(cwd, filePath);
+  return resolvedPath.startsWith(cwd + path.sep) || resolvedPath === cwd ? resolvedPath : null;
+}
+
 /**
  * Tool: list_project_files
  * List files in the current project directory
  */
 const listProjectFiles: InternalTool = {
   name: 'list_project_files',
-  description: 'List files in the current project directory. Respects .gitignore and excludes common directories like node_modules. Use when discussing project structure or when user asks about files.',
+  description: 'List files in the current project (or a subdirectory) with sizes. Respects .gitignore and excludes common directories like node_modules. Directories deeper than `depth` are summarised with file counts, e.g. "src/utils/ (42 files)"; list them with `path` to drill down. Use when discussing project structure or when user asks about files.',
   parameters: {
     type: 'object',
     properties: {
+      path: {
+        type: 'string',
+        description: 'Subdirectory to list (relative to current directory, default: ".")'
+      },
+      depth: {
+        type: 'number',
+        description: 'Directory levels to expand before summarising (default: 3, max: 10)'
+      },
+      pattern: {
+        type: 'string',
+        description: 'Only files matching this glob (e.g. "*.ts", "**/test/**")'
+      },
+      sort: {
+        type: 'string',
+        enum: ['name', 'mtime', 'size'],
+        description: 'name (default), mtime (recently modified first) or size (largest first)'
+      },
+      offset: {
+        type: 'number',
+        description: 'Number of entries to skip, for paging through large listings (default: 0)'
+      },
       limit: {
         type: 'number',
-        description: 'Maximum number of files to list (default: 30, max: 100)'
+        description: 'Maximum number of entries to list (default: 30, max: 100)'
       }
     }
   },
   execute: async (args, context): Promise<InternalToolResult> => {
     try {
+      const dir = (args.path as string | undefined) || '.';
       const limit = Math.min(Math.max((args.limit as number) || 30, 1), 100);
+      const offset = Math.max((args.offset as number) || 0, 0);
+      const sort = (args.sort as FileSort | undefined) || 'name';
+
+      const resolvedDir = resolveWithinCwd(dir);
+      if (!resolvedDir) {
+        return {
+          success: false,
+          content: '',
+          error: `Access denied: path must be within the current directory`
+        };
+      }
+
+      const pattern = args.pattern as string | undefined;
+      if (pattern && !isContainedGlob(pattern)) {
+        return {
+          success: false,
+          content: '',
+          error: `Access denied: pattern must be relative to the listed directory and can't contain ..`
+        };
+      }
 
-      const files = await context.files.listFiles(limit);
+      const listing = await context.files.listEntries({
+        path: dir,
+        depth: Math.min(Math.max((args.depth as number) || 3, 1), 10),
+        pattern,
+        sort,
+        offset,
+        limit
+      });
 
-      if (files.length === 0) {
+      if (listing.totalFiles === 0) {
         return {
           success: true,
-          content: 'No files found in the current directory.'
+          content: `No files found in ${resolvedDir}${pattern ? ` matching ${pattern}` : ''}.`
         };
       }
 
-      // Group files by directory for better readability
-      const grouped: Record<string, string[]> = {};
-      for (const file of files) {
-        const dir = file.includes('/') ? file.substring(0, file.lastIndexOf('/')) : '.';
-        if (!grouped[dir]) grouped[dir] = [];
-        grouped[dir].push(file);
+      const lines = listing.entries.map(entry => {
+        const details = entry.type === 'directory'
+          ? [`${entry.files} file${entry.files === 1 ? '' : 's'}`, formatBytes(entry.size)]
+          : [formatBytes(entry.size)];
+        if (sort === 'mtime') details.push(`modified ${new Date(entry.mtime).toLocaleString()}`);
+        return `- ${entry.path} (${details.join(', ')})`;
+      });
+
+      const shownEnd = offset + listing.entries.length;
+      const range = listing.entries.length > 0
+        ? `showing ${offset + 1}-${shownEnd} of ${listing.totalEntries} entries`
+        : `offset ${offset} is past the last of ${listing.totalEntries} entries`;
+      const next = shownEnd < listing.totalEntries ? `\n\nMore entries available: use offset ${shownEnd}.` : '';
+
+      return {
+        success: true,
+        content: `Found ${listing.totalFiles} file(s) in ${resolvedDir} (sorted by ${sort}, ${range}):\n\n${lines.join('\n')}${next}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to list project files: ${error}`
+      };
+    }
+  }
+};
+
+// Cap on search_project output so a broad pattern can't flood the context
+const MAX_SEARCH_OUTPUT_CHARS = 15000;
+
+/**
+ * Tool: search_project
+ * Search file contents in the current project
+ */
+const searchProject: InternalTool = {
+  name: 'search_project',
+  description: 'Search file contents in the current project for a regular expression (respects .gitignore). Returns matching lines as file:line. Use to find where something is defined or used instead of guessing filenames.',
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Regular expression to search for (e.g. "function \\w+Config", "TODO")'
+      },
+      glob: {
+        type: 'string',
+        description: 'Only search files matching this glob (e.g. "*.ts", "src/**")'
+      },
+      max_results: {
+        type: 'number',
+        description: 'Maximum number of matching lines (default: 30, max: 100)'
+      },
+      ignore_case: {
+        type: 'boolean',
+        description: 'Case-insensitive search'
+      }
+    },
+    required: ['pattern']
+  },
+  execute: async (args, context): Promise<InternalToolResult> => {
+    const pattern = args.pattern as string;
+    try {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return {
+          success: false,
+          content: '',
+          error: `Invalid regular expression: ${pattern}`
+        };
       }
 
-      let formatted = `Found ${files.length} file(s) in ${process.cwd()}:\n\n`;
-      for (const [dir, dirFiles] of Object.entries(grouped).sort()) {
-        formatted += `**${dir}/**\n`;
-        for (const f of dirFiles.sort()) {
-          const basename = f.split('/').pop();
-          formatted += `  - ${basename}\n`;
-        }
-        formatted += '\n';
+      const glob = args.glob as string | undefined;
+      if (glob && !isContainedGlob(glob)) {
+        return {
+          success: false,
+          content: '',
+          error: `Access denied: glob must be relative to the current directory and can't contain ..`
+        };
+      }
+
+      const maxResults = Math.min(Math.max((args.max_results as number) || 30, 1), 100);
+      const { matches, truncated } = await context.search.search(pattern, {
+        glob: args.glob as string | undefined,
+        maxResults,
+        ignoreCase: Boolean(args.ignore_case)
+      });
+
+      if (matches.length === 0) {
+        return {
+          success: true,
+          content: `No matches for \`${pattern}\`${args.glob ? ` in ${args.glob}` : ''}.`
+        };
       }
 
+      let output = '';
+      let shown = 0;
+      for (const match of matches) {
+        const line = `${match.file}:${match.line}: ${match.text}\n`;
+        if (output.length + line.length > MAX_SEARCH_OUTPUT_CHARS) break;
+        output += line;
+        shown++;
+      }
+
+      const more = truncated || shown < matches.length
+        ? `\n(Showing the first ${shown} matches; narrow the pattern or glob to see more.)`
+        : '';
       return {
         success: true,
-        content: formatted.trim()
+        content: `Matches for \`${pattern}\`:\n\n${output.trimEnd()}${more}`
       };
     } catch (error) {
       return {
         success: false,
         content: '',
-        error: `Failed to list project files: ${error}`
+        error: `Failed to search project: ${error}`
       };
     }
   }
 };
 
+/**
+ * Tool: semantic_search_project
+ * Find code and docs by meaning using the project index built by `hey-ai index`
+ */
+const semanticSearchProject: InternalTool = {
+  name: 'semantic_search_project',
+  description: 'Search the project by meaning (embeddings) rather than exact text, e.g. "where is the retry logic configured?". Returns the most relevant file chunks with line ranges. Requires the project to be indexed with `hey-ai index`; use search_project for exact names.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'What to look for, in natural language'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of chunks to return (default: 5, max: 10)'
+      }
+    },
+    required: ['query']
+  },
+  execute: async (args, context): Promise<InternalToolResult> => {
+    try {
+      const query = args.query as string;
+      const limit = Math.min(Math.max((args.limit as number) || 5, 1), 10);
+
+      const hits = await context.searchProjectIndex(query, limit);
+
+      if (hits === null) {
+        return {
+          success: true,
+          content: 'This project has not been indexed yet. Suggest running `hey-ai index` in the project, or use search_project instead.'
+        };
+      }
+      if (hits.length === 0) {
+        return {
+          success: true,
+          content: 'No relevant code found in the project index.'
+        };
+      }
+
+      const formatted = hits.map(hit =>
+        `### ${hit.path}:${hit.startLine}-${hit.endLine}\n\`\`\`\n${hit.content}\n\`\`\``
+      ).join('\n\n');
+
+      return {
+        success: true,
+        content: `Most relevant project chunks for "${query}":\n\n${formatted}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to search project index: ${error}`
+      };
+    }
+  }
+};
+
+// Characters of file content returned per call (long lines are cut at 1000 as well)
+const MAX_FILE_OUTPUT_CHARS = 20000;
+
 /**
  * Tool: read_file_content
  * Read the contents of a specific file
  */
 const readFileContent: InternalTool = {
   name: 'read_file_content',
-  description: 'Read the contents of a specific file. Use when you need to examine code, configuration, or documentation to provide accurate advice.',
+  description: 'Read a specific file, or a line range or the last lines of it, with its size, modification time and total line count. Use when you need to examine code, configuration, logs or documentation to provide accurate advice.',
   parameters: {
     type: 'object',
     properties: {
@@ -213,6 +556,18 @@ const readFileContent: InternalTool = {
         type: 'string',
         description: 'Path to the file to read (relative to current directory)'
       },
+      start_line: {
+        type: 'number',
+        description: 'First line to return (1-based, default: 1)'
+      },
+      end_line: {
+        type: 'number',
+        description: 'Last line to return (inclusive)'
+      },
+      tail: {
+        type: 'number',
+        description: 'Return the last N lines instead (e.g. for logs)'
+      },
       max_lines: {
         type: 'number',
         description: 'Maximum number of lines to return (default: 100, max: 500)'
@@ -226,9 +581,7 @@ const readFileContent: InternalTool = {
       const maxLines = Math.min(Math.max((args.max_lines as number) || 100, 1), 500);
 
       // Prevent path traversal attacks
-      const cwd = process.cwd();
-      const resolvedPath = path.resolve(cwd, filePath);
-      if (!resolvedPath.startsWith(cwd + path.sep) && resolvedPath !== cwd) {
+      if (!resolveWithinCwd(filePath)) {
         return {
           success: false,
           content: '',
@@ -236,44 +589,83 @@ const readFileContent: InternalTool = {
         };
       }
 
-      const content = await context.files.getFileContent(filePath, maxLines);
+      const result = await context.files.readFile(filePath, {
+        startLine: args.start_line as number | undefined,
+        endLine: args.end_line as number | undefined,
+        tail: args.tail as number | undefined,
+        maxLines,
+        maxChars: MAX_FILE_OUTPUT_CHARS
+      });
+
+      const details = [formatBytes(result.size)];
+      if (!result.binary && result.totalLines !== null) details.push(`${result.totalLines} lines`);
+      if (result.encoding && result.encoding !== 'utf-8') details.push(result.encoding);
+      details.push(`modified ${new Date(result.mtime).toLocaleString()}`);
+      const header = `File \`${filePath}\` (${details.join(', ')})`;
+
+      if (result.binary) {
+        return {
+          success: true,
+          content: `${header}\n\nThis is a binary file; its content can't be shown as text.`
+        };
+      }
 
-      // Check if it's an error message from getFileContent
-      if (content.startsWith('Error reading file')) {
+      if (result.endLine === 0) {
         return {
-          success: false,
-          content: '',
-          error: content
+          success: true,
+          content: result.totalLines === 0
+            ? `${header}\n\nThe file is empty.`
+            : `${header}\n\nNo lines in the requested range (the file has ${result.totalLines} lines).`
         };
       }
 
+      const notes: string[] = [];
+      if (result.truncated) {
+        notes.push(`Showing at most ${maxLines} lines or ${MAX_FILE_OUTPUT_CHARS} characters; use start_line/end_line or tail to see more.`);
+      }
+      if (result.longLines > 0) {
+        notes.push(`${result.longLines} long line${result.longLines === 1 ? ' was' : 's were'} cut; the file may be minified or generated.`);
+      }
+      const more = notes.length > 0 ? `\n\n(${notes.join(' ')})` : '';
+      const of = result.totalLines !== null ? ` of ${result.totalLines}` : '';
       return {
         success: true,
-        content: `Contents of \`${filePath}\`:\n\n\`\`\`\n${content}\n\`\`\``
+        content: `${header}\nLines ${result.startLine}-${result.endLine}${of}:\n\n\`\`\`\n${result.content}\n\`\`\`${more}`
       };
     } catch (error) {
       return {
         success: false,
         content: '',
-        error: `Failed to read file: ${error}`
+        error: `Error reading file ${args.path}: ${error instanceof Error ? error.message : error}`
       };
     }
   }
 };
 
+// Whole OPTIONS sections of large man pages (bash, ffmpeg) are capped at this size
+const MAX_DOCS_OUTPUT_CHARS = 20000;
+
 /**
  * Tool: get_command_docs
- * Get documentation (man page or tldr) for a command
+ * Get documentation (man page or tldr) for a command, a section of it, or one flag
  */
 const getCommandDocs: InternalTool = {
   name: 'get_command_docs',
-  description: 'Get documentation for a CLI command (tries man page first, then tldr). Use when explaining commands, suggesting flags, or verifying command syntax.',
+  description: 'Get documentation for a CLI command or subcommand (tries the man page first, then tldr, then the command\'s own --help). Without section or flag, returns NAME/SYNOPSIS/DESCRIPTION and lists the other sections. Use `flag` to check exactly what an option does before suggesting it, or `section` (e.g. OPTIONS, EXAMPLES, ENVIRONMENT) to read a whole section.',
   parameters: {
     type: 'object',
     properties: {
       command: {
         type: 'string',
-        description: 'Name of the command to get documentation for (e.g., "grep", "find", "git")'
+        description: 'Command or subcommand to get documentation for (e.g., "grep", "git rebase", "docker compose up")'
+      },
+      section: {
+        type: 'string',
+        description: 'Man page section to return, e.g. "OPTIONS", "EXAMPLES", "ENVIRONMENT", "EXIT STATUS"'
+      },
+      flag: {
+        type: 'string',
+        description: 'Only return the description of this flag, e.g. "-z" or "--null"'
       }
     },
     required: ['command']
@@ -281,19 +673,48 @@ const getCommandDocs: InternalTool = {
   execute: async (args, context): Promise<InternalToolResult> => {
     try {
       const command = args.command as string;
+      const sectionName = args.section as string | undefined;
+      const flag = args.flag as string | undefined;
 
-      const docs = await context.getManPage(command);
+      const docs = await context.getCommandDocs(command);
 
       if (!docs) {
         return {
           success: true,
-          content: `No documentation found for command: ${command}`
+          content: `No documentation found for command: ${command} (no man page, tldr page or --help output)`
         };
       }
 
+      const available = docs.sections.map(section => section.name).join(', ');
+      let content: string;
+      if (flag) {
+        const description = findFlag(docs, flag);
+        if (!description) {
+          return {
+            success: true,
+            content: `\`${normalizeFlag(flag)}\` is not documented in the ${docs.source} page for \`${command}\`. It may not exist; check the OPTIONS section. Available sections: ${available}`
+          };
+        }
+        content = `Documentation for \`${command} ${normalizeFlag(flag)}\`:\n\n${description}`;
+      } else if (sectionName) {
+        const section = findSection(docs, sectionName);
+        if (!section) {
+          return {
+            success: true,
+            content: `No ${sectionName.toUpperCase()} section in the ${docs.source} page for \`${command}\`. Available sections: ${available}`
+          };
+        }
+        content = `${section.name} of \`${command}\`:\n\n${section.content}`;
+      } else {
+        content = `Documentation for \`${command}\`:\n\n${formatDocsOverview(docs)}`;
+      }
+
+      if (content.length > MAX_DOCS_OUTPUT_CHARS) {
+        content = `${content.slice(0, MAX_DOCS_OUTPUT_CHARS)}\n\n(Truncated; ask for a single flag to see its full description.)`;
+      }
       return {
         success: true,
-        content: `Documentation for \`${command}\`:\n\n${docs}`
+        content
       };
     } catch (error) {
       return {
@@ -305,15 +726,255 @@ const getCommandDocs: InternalTool = {
   }
 };
 
+/**
+ * Tool: get_project_info
+ * Detected ecosystems, package managers and runnable tasks of the current project
+ */
+const getProjectInfo: InternalTool = {
+  name: 'get_project_info',
+  description: 'Detect the project type from manifest files (package.json, Makefile, Cargo.toml, pyproject.toml, go.mod, docker-compose, justfile) with the package manager and available scripts/targets/services. Use when the user asks how to build, test, run or install things in this project.',
+  parameters: {
+    type: 'object',
+    properties: {}
+  },
+  execute: async (_args, context): Promise<InternalToolResult> => {
+    try {
+      const info = await context.project.inspect();
+
+      if (!info) {
+        return {
+          success: true,
+          content: `No project manifests found in ${process.cwd()} or its parent directories.`
+        };
+      }
+
+      const sections = info.ecosystems.map(e => {
+        const lines = [`## ${e.kind} (${e.manifest})${e.name ? ` - ${e.name}` : ''}`, `Tool: ${e.tool}`];
+        if (e.tasks.length > 0) {
+          lines.push('Tasks:');
+          for (const task of e.tasks) {
+            lines.push(`  - ${task.name}${task.command ? `: ${task.command}` : ''}`);
+          }
+        }
+        if (e.runTask && e.tasks.length > 0) lines.push(`Run a task: ${e.runTask}`);
+        if (e.commands.length > 0) lines.push(`Common commands: ${e.commands.join(', ')}`);
+        return lines.join('\n');
+      });
+
+      return {
+        success: true,
+        content: `Project root: ${info.root}\n\n${sections.join('\n\n')}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to inspect project: ${error}`
+      };
+    }
+  }
+};
+
+// Files listed per section of get_git_status
+const MAX_GIT_STATUS_FILES = 50;
+
+function formatFileList(title: string, items: string[]): string {
+  const shown = items.slice(0, MAX_GIT_STATUS_FILES).map(item => `  - ${item}`);
+  if (items.length > MAX_GIT_STATUS_FILES) {
+    shown.push(`  ... and ${items.length - MAX_GIT_STATUS_FILES} more`);
+  }
+  return `${title} (${items.length}):\n${shown.join('\n')}`;
+}
+
+function formatChange(change: GitFileChange): string {
+  return `${change.kind}: ${change.from ? `${change.from} -> ` : ''}${change.path}`;
+}
+
+function notARepository(): InternalToolResult {
+  return {
+    success: true,
+    content: `Not inside a git repository (${process.cwd()}).`
+  };
+}
+
+/**
+ * Tool: get_git_status
+ * Branch, upstream tracking and changed files of the current repository
+ */
+const getGitStatus: InternalTool = {
+  name: 'get_git_status',
+  description: 'Get the git status of the current directory: branch, upstream ahead/behind counts, and staged, unstaged and untracked files. Use before suggesting git commands (commit, push, rebase, stash, etc.).',
+  parameters: {
+    type: 'object',
+    properties: {}
+  },
+  execute: async (_args, context): Promise<InternalToolResult> => {
+    try {
+      const root = await context.git.getRoot();
+      if (!root) return notARepository();
+
+      const status = await context.git.getStatus();
+
+      let branch: string;
+      if (!status.branch) {
+        branch = `HEAD detached at ${status.head}`;
+      } else if (!status.head) {
+        branch = `${status.branch} (no commits yet)`;
+      } else if (status.upstream) {
+        branch = `${status.branch} (tracking ${status.upstream}, ${status.ahead} ahead, ${status.behind} behind)`;
+      } else {
+        branch = `${status.branch} (no upstream)`;
+      }
+
+      const sections = [`Repository: ${root}`, `Branch: ${branch}`];
+      if (status.conflicted.length > 0) sections.push(formatFileList('Conflicted', status.conflicted));
+      if (status.staged.length > 0) sections.push(formatFileList('Staged', status.staged.map(formatChange)));
+      if (status.unstaged.length > 0) sections.push(formatFileList('Unstaged', status.unstaged.map(formatChange)));
+      if (status.untracked.length > 0) sections.push(formatFileList('Untracked', status.untracked));
+      if (sections.length === 2) sections.push('Working tree clean.');
+
+      return {
+        success: true,
+        content: sections.join('\n\n')
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to get git status: ${error}`
+      };
+    }
+  }
+};
+
+/**
+ * Tool: get_git_log
+ * Recent commits of the current repository
+ */
+const getGitLog: InternalTool = {
+  name: 'get_git_log',
+  description: 'Get recent git commits (hash, date, author, subject) on the current branch, optionally only those touching a path. Use for questions about recent changes or when suggesting reset/revert/rebase targets.',
+  parameters: {
+    type: 'object',
+    properties: {
+      count: {
+        type: 'number',
+        description: 'Number of commits to retrieve (default: 10, max: 50)'
+      },
+      path: {
+        type: 'string',
+        description: 'Only commits touching this file or directory'
+      }
+    }
+  },
+  execute: async (args, context): Promise<InternalToolResult> => {
+    try {
+      if (!await context.git.getRoot()) return notARepository();
+
+      const count = Math.min(Math.max((args.count as number) || 10, 1), 50);
+      const filePath = args.path as string | undefined;
+      const commits = await context.git.getLog({ count, path: filePath });
+
+      if (commits.length === 0) {
+        return {
+          success: true,
+          content: filePath ? `No commits found touching ${filePath}.` : 'No commits yet.'
+        };
+      }
+
+      const formatted = commits
+        .map(c => `- \`${c.hash}\` ${c.date.slice(0, 10)} ${c.author}: ${c.subject}`)
+        .join('\n');
+
+      return {
+        success: true,
+        content: `Recent commits${filePath ? ` touching ${filePath}` : ''}:\n\n${formatted}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to get git log: ${error}`
+      };
+    }
+  }
+};
+
+/**
+ * Tool: get_git_diff
+ * Staged or working tree diff, capped in size
+ */
+const getGitDiff: InternalTool = {
+  name: 'get_git_diff',
+  description: 'Get the git diff of uncommitted changes (working tree by default, or staged changes), optionally for one path. Output is capped in size. Use when writing commit messages or reviewing what changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      staged: {
+        type: 'boolean',
+        description: 'Show staged changes instead of unstaged working tree changes'
+      },
+      path: {
+        type: 'string',
+        description: 'Only show changes to this file or directory'
+      },
+      max_chars: {
+        type: 'number',
+        description: 'Maximum diff size in characters (default: 20000, max: 50000)'
+      }
+    }
+  },
+  execute: async (args, context): Promise<InternalToolResult> => {
+    try {
+      if (!await context.git.getRoot()) return notARepository();
+
+      const staged = Boolean(args.staged);
+      const maxChars = Math.min(Math.max((args.max_chars as number) || 20000, 1000), 50000);
+      const { stat, diff, truncated } = await context.git.getDiff({
+        staged,
+        path: args.path as string | undefined,
+        maxChars
+      });
+
+      const kind = staged ? 'staged' : 'unstaged';
+      if (!diff) {
+        return {
+          success: true,
+          content: `No ${kind} changes.`
+        };
+      }
+
+      const note = truncated ? `\n\n(Diff truncated to ${maxChars} characters; pass path to see one file.)` : '';
+      return {
+        success: true,
+        content: `${kind === 'staged' ? 'Staged' : 'Unstaged'} changes:\n\n${stat}\n\n\`\`\`diff\n${diff}\n\`\`\`${note}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        content: '',
+        error: `Failed to get git diff: ${error}`
+      };
+    }
+  }
+};
+
 /**
  * All internal context tools
  */
 export const INTERNAL_TOOLS: InternalTool[] = [
   searchSessionHistory,
   getRecentCommands,
+  searchShellHistory,
   listProjectFiles,
+  searchProject,
+  semanticSearchProject,
   readFileContent,
-  getCommandDocs
+  getCommandDocs,
+  getProjectInfo,
+  getGitStatus,
+  getGitLog,
+  getGitDiff
 ];
 
 /**
@@ -0,0 +1,56 @@
+/**
+ * Date parsing shared by CLI options and internal tools
+ */
+
+const RELATIVE_DATE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a date: relative ("30m", "12h", "7d", "2w"), a local calendar day
+ * ("2024-05-01", "today", "yesterday") or anything else Date can parse.
+ * Returns a timestamp in milliseconds. A day is its start, or with `endOfDay` its
+ * last millisecond, so an inclusive upper bound covers the whole day.
+ */
+export function parseDateOption(value: string, options: { endOfDay?: boolean } = {}): number {
+  const trimmed = value.trim().toLowerCase();
+
+  const relative = trimmed.match(/^(\d+)\s*([mhdw])$/);
+  if (relative) {
+    return Date.now() - parseInt(relative[1], 10) * RELATIVE_DATE_UNITS[relative[2]];
+  }
+
+  let day: Date | null = null;
+  if (trimmed === 'today' || trimmed === 'yesterday') {
+    day = new Date();
+    day.setHours(0, 0, 0, 0);
+    if (trimmed === 'yesterday') day.setDate(day.getDate() - 1);
+  }
+
+  // Date.parse reads YYYY-MM-DD as UTC midnight; a day the user types is a local one
+  const calendar = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (calendar) {
+    const [year, month, date] = calendar.slice(1).map(part => parseInt(part, 10));
+    day = new Date(year, month - 1, date);
+    if (day.getMonth() !== month - 1 || day.getDate() !== date) {
+      throw new Error(`Invalid date "${value}" (use e.g. 2024-05-01, 7d or 12h)`);
+    }
+  }
+
+  if (day) {
+    if (options.endOfDay) {
+      day.setDate(day.getDate() + 1);
+      return day.getTime() - 1;
+    }
+    return day.getTime();
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date "${value}" (use e.g. 2024-05-01, 7d or 12h)`);
+  }
+  return timestamp;
+}
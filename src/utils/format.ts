@@ -0,0 +1,18 @@
+/**
+ * Formatting helpers shared by CLI output and internal tools
+ */
+
+/**
+ * Human-readable byte size, e.g. `512 B`, `12.3 KB`, `4.0 MB`
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
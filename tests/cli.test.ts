@@ -1,14 +1,37 @@
 import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Shared so tests can check what a query stored
+const saveInteraction = (jest.fn() as any).mockResolvedValue(undefined);
 
 // Mock the dependencies before importing anything
 jest.unstable_mockModule('../src/rag/engine.js', () => ({
   RagEngine: jest.fn().mockImplementation(() => ({
     init: (jest.fn() as any).mockResolvedValue(undefined),
     assembleContext: (jest.fn() as any).mockResolvedValue('mock context'),
-    saveInteraction: (jest.fn() as any).mockResolvedValue(undefined),
+    saveInteraction,
     getInternalTools: (jest.fn() as any).mockReturnValue([]),
     isInternalTool: (jest.fn() as any).mockReturnValue(false),
     executeInternalTool: (jest.fn() as any).mockResolvedValue({ success: true, content: '' }),
+    saveConversationTurn: jest.fn(),
+    takeRedactionCounts: jest.fn().mockReturnValue({}),
+    getCommandDocs: (jest.fn() as any).mockResolvedValue(null),
+    session: {
+      getLatestConversation: jest.fn().mockReturnValue({
+        id: 'conv-1234567890',
+        title: 'list my files',
+        cwd: '/test',
+        created_at: 0,
+        updated_at: 0
+      }),
+      getConversation: jest.fn().mockReturnValue(null),
+      getConversationMessages: jest.fn().mockReturnValue([
+        { role: 'user', content: 'list my files' },
+        { role: 'assistant', content: '```zsh\nls\n```' }
+      ]),
+    },
     mcp: {
       getToolDefinitionsForGemini: (jest.fn() as any).mockResolvedValue([]),
       getServerForTool: (jest.fn() as any).mockReturnValue(undefined),
@@ -21,17 +44,23 @@ jest.unstable_mockModule('../src/rag/engine.js', () => ({
 jest.unstable_mockModule('../src/llm/wrapper.js', () => ({
   LlmWrapper: jest.fn().mockImplementation(() => ({
     streamPrompt: (jest.fn() as any).mockResolvedValue('```zsh\nls -la\n```'),
+    promptObject: (jest.fn() as any).mockResolvedValue({
+      text: '```zsh\nls -la\n```',
+      object: { commands: ['ls -la'], explanation: 'List all files', platform: 'Linux (zsh)', risk: 'low' }
+    }),
   })),
   createToolCallHandlers: jest.fn().mockReturnValue({
     onToolStart: jest.fn(),
     onToolEnd: jest.fn(),
   }),
   getRecommendedModels: jest.fn().mockReturnValue([]),
+  getModelName: jest.fn((model?: string) => model || 'gpt-4o-mini'),
   MODEL_ALIASES: {},
 }));
 
 jest.unstable_mockModule('../src/llm/embedding.js', () => ({
   getEmbedding: (jest.fn() as any).mockResolvedValue(Array(1536).fill(0.1)),
+  getEmbeddings: (jest.fn() as any).mockResolvedValue([]),
   getEmbeddingDimension: (jest.fn() as any).mockReturnValue(1536),
 }));
 
@@ -39,6 +68,28 @@ jest.unstable_mockModule('../src/context/commands.js', () => ({
   CommandDetector: jest.fn().mockImplementation(() => ({
     getPreferences: jest.fn().mockReturnValue({}),
   })),
+  resolveCommandPath: jest.fn().mockReturnValue(null),
+}));
+
+const sessionEntry = {
+  id: 1,
+  prompt: 'list files',
+  response: '```zsh\nls\n```',
+  timestamp: Date.UTC(2024, 4, 1),
+  cwd: '/test',
+  model: 'claude-sonnet',
+  exit_code: null,
+  conversation_id: null,
+};
+
+const sessionMocks = {
+  getRecentEntries: jest.fn().mockReturnValue([sessionEntry]),
+  getAllEntries: jest.fn().mockReturnValue([sessionEntry]),
+  clearEntries: jest.fn().mockReturnValue(1),
+};
+
+jest.unstable_mockModule('../src/context/session.js', () => ({
+  SessionHistory: jest.fn().mockImplementation(() => sessionMocks),
 }));
 
 jest.unstable_mockModule('clipboardy', () => ({
@@ -52,7 +103,8 @@ jest.unstable_mockModule('chalk', () => ({
     gray: (s: any) => s,
     blue: (s: any) => s,
     green: (s: any) => s,
-    red: (s: any) => s,
+    red: Object.assign((s: any) => s, { bold: (s: any) => s }),
+    yellow: (s: any) => s,
     bold: (s: any) => s,
   },
 }));
@@ -114,4 +166,164 @@ describe('CLI Arguments', () => {
     expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Recommended Models:'));
     consoleSpy.mockRestore();
   });
+
+  it('should replay the latest conversation with --continue', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const { LlmWrapper } = await import('../src/llm/wrapper.js');
+    const program = createProgram();
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    
+    await program.parseAsync(['node', 'hey-ai', '-c', 'now include hidden files']);
+    
+    const llm = (LlmWrapper as unknown as jest.Mock).mock.results.at(-1)!.value as any;
+    const [input, llmOptions] = llm.streamPrompt.mock.calls[0];
+    expect(input).toContain('now include hidden files');
+    expect(llmOptions.messages).toEqual([
+      { role: 'user', content: 'list my files' },
+      { role: 'assistant', content: '```zsh\nls\n```' }
+    ]);
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Continuing conversation conv-123'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should fail for an unknown --resume id', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const program = createProgram();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    
+    await expect(program.parseAsync(['node', 'hey-ai', '--resume', 'missing', 'hello'])).rejects.toThrow('process.exit');
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Conversation "missing" not found'));
+    errorSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should print structured JSON with --format json', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const clipboardy = (await import('clipboardy')).default;
+    const program = createProgram();
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    (clipboardy.write as jest.Mock).mockClear();
+    
+    await program.parseAsync(['node', 'hey-ai', '--format', 'json', 'list my files']);
+    
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    const output = JSON.parse(consoleSpy.mock.calls[0][0] as string);
+    expect(output).toMatchObject({
+      status: 'ok',
+      query: 'list my files',
+      commands: ['ls -la'],
+      risk: 'low',
+      toolCalls: []
+    });
+    expect(clipboardy.write).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should report errors as JSON with --format json', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const { LlmWrapper } = await import('../src/llm/wrapper.js');
+    (LlmWrapper as unknown as jest.Mock).mockImplementationOnce(() => ({
+      promptObject: (jest.fn() as any).mockRejectedValue(new Error('rate limited')),
+    }));
+    const program = createProgram();
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as any);
+    
+    await expect(program.parseAsync(['node', 'hey-ai', '-f', 'json', 'list my files'])).rejects.toThrow('process.exit');
+    const output = JSON.parse(consoleSpy.mock.calls[0][0] as string);
+    expect(output).toMatchObject({ status: 'error', error: 'rate limited' });
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+  });
+
+  it('should not copy a dangerous command without confirmation', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const { LlmWrapper } = await import('../src/llm/wrapper.js');
+    const clipboardy = (await import('clipboardy')).default;
+    (LlmWrapper as unknown as jest.Mock).mockImplementationOnce(() => ({
+      streamPrompt: (jest.fn() as any).mockResolvedValue('```zsh\nrm -rf ./build\n```'),
+    }));
+    const program = createProgram();
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    (clipboardy.write as jest.Mock).mockClear();
+    
+    await program.parseAsync(['node', 'hey-ai', 'clean the build']);
+    
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Potentially dangerous command'));
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[rm-recursive-force]'));
+    expect(clipboardy.write).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should send syntax errors back to the model before copying', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const { LlmWrapper } = await import('../src/llm/wrapper.js');
+    const { resolveCommandPath } = await import('../src/context/commands.js');
+    const clipboardy = (await import('clipboardy')).default;
+    const streamPrompt = (jest.fn() as any)
+      .mockResolvedValueOnce('```bash\nlist() {\n  ls -la\n\n```')
+      .mockResolvedValueOnce('```bash\nlist() {\n  ls -la\n}\n```');
+    (LlmWrapper as unknown as jest.Mock).mockImplementationOnce(() => ({ streamPrompt }));
+    (resolveCommandPath as jest.Mock).mockImplementation((command: any) => command === 'bash' ? '/bin/bash' : null);
+    const program = createProgram();
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    (clipboardy.write as jest.Mock).mockClear();
+    saveInteraction.mockClear();
+
+    try {
+      await program.parseAsync(['node', 'hey-ai', 'list files']);
+    } finally {
+      (resolveCommandPath as jest.Mock).mockReturnValue(null);
+    }
+
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Syntax errors (bash -n)'));
+    expect(streamPrompt).toHaveBeenCalledTimes(2);
+    // The repair is a follow-up turn: the first prompt and answer are in the message list
+    expect(streamPrompt.mock.calls[1][0]).toContain('Please provide a corrected version');
+    expect(streamPrompt.mock.calls[1][0]).not.toContain('list files');
+    expect(streamPrompt.mock.calls[1][1].messages).toEqual([
+      { role: 'user', content: streamPrompt.mock.calls[0][0] },
+      { role: 'assistant', content: '```bash\nlist() {\n  ls -la\n\n```' }
+    ]);
+    expect(saveInteraction).toHaveBeenCalledTimes(1);
+    expect(saveInteraction).toHaveBeenCalledWith('list files', '```bash\nlist() {\n  ls -la\n}\n```', expect.anything());
+    expect(clipboardy.write).toHaveBeenCalledTimes(1);
+    expect(clipboardy.write).toHaveBeenCalledWith('list() {\n  ls -la\n}');
+    consoleSpy.mockRestore();
+  });
+
+  it('should pass history filter options to the subcommand, not the root query options', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await createProgram().parseAsync(['node', 'hey-ai', 'history', 'list', '--model', 'claude', '--json']);
+    await createProgram().parseAsync(['node', 'hey-ai', 'history', 'clear', '--model', 'gpt', '--yes']);
+
+    expect(sessionMocks.getRecentEntries).toHaveBeenCalledWith(20, expect.objectContaining({ model: 'claude' }));
+    expect(sessionMocks.clearEntries).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt' }));
+    consoleSpy.mockRestore();
+  });
+
+  it('should export history in the format given to the subcommand', async () => {
+    const { createProgram } = await import('../src/index.js');
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hey-ai-export-'));
+    const output = path.join(outputDir, 'history.md');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      await createProgram().parseAsync(['node', 'hey-ai', 'history', 'export', '--format', 'md', '-o', output]);
+      const markdown = fs.readFileSync(output, 'utf-8');
+      expect(markdown).toContain('# hey-ai history');
+      expect(markdown).toContain('## list files');
+    } finally {
+      errorSpy.mockRestore();
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,120 @@
+import { jest } from '@jest/globals';
+import { ConfigManager, migrateMcpServerConfig } from '../src/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ConfigManager', () => {
+  const testDir = path.join(os.tmpdir(), 'hey-ai-test-config');
+  const configPath = path.join(testDir, 'config.json');
+
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should migrate legacy transport markers to typed entries', () => {
+    expect(migrateMcpServerConfig({ command: '__sse__', args: ['https://example.com/sse'] }))
+      .toEqual({ type: 'sse', url: 'https://example.com/sse' });
+    expect(migrateMcpServerConfig({ command: 'npx', args: ['-y', 'server'] }))
+      .toEqual({ type: 'stdio', command: 'npx', args: ['-y', 'server'] });
+    expect(migrateMcpServerConfig({ type: 'http', url: 'https://example.com' }))
+      .toEqual({ type: 'http', url: 'https://example.com' });
+  });
+
+  it('should migrate legacy config on load and persist the new shape', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      defaultModel: 'haiku',
+      mcpServers: {
+        deepwiki: { command: '__sse__', args: ['https://mcp.deepwiki.com/sse'] },
+        local: { command: 'node', args: ['server.js'], env: { KEY: 'value' } }
+      }
+    }));
+
+    const manager = new ConfigManager(configPath);
+    const config = await manager.loadConfig();
+    expect(config.mcpServers.deepwiki).toEqual({ type: 'sse', url: 'https://mcp.deepwiki.com/sse' });
+    expect(config.mcpServers.local).toEqual({
+      type: 'stdio',
+      command: 'node',
+      args: ['server.js'],
+      env: { KEY: 'value' }
+    });
+
+    await manager.setConfig({ defaultModel: 'sonnet' });
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    expect(saved.mcpServers.deepwiki.type).toBe('sse');
+    expect(saved.mcpServers.deepwiki.command).toBeUndefined();
+  });
+
+  it('should skip an invalid server without losing the rest of the config', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      defaultModel: 'haiku',
+      riskPolicy: { disabledRules: ['find-delete'] },
+      mcpServers: {
+        broken: { type: 'http', url: 'not a url' },
+        local: { type: 'stdio', command: 'node', args: ['server.js'] }
+      }
+    }));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const manager = new ConfigManager(configPath);
+    const config = await manager.loadConfig();
+    expect(config.defaultModel).toBe('haiku');
+    expect(config.riskPolicy?.disabledRules).toEqual(['find-delete']);
+    expect(Object.keys(config.mcpServers)).toEqual(['local']);
+    expect(manager.getInvalidServers()).toEqual(['broken']);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('ignoring MCP server "broken"'));
+
+    // Saving keeps the invalid entry as it was, for the user to fix
+    await manager.setConfig({ defaultModel: 'sonnet' });
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    expect(saved.defaultModel).toBe('sonnet');
+    expect(saved.riskPolicy).toEqual({ disabledRules: ['find-delete'] });
+    expect(saved.mcpServers.broken).toEqual({ type: 'http', url: 'not a url' });
+    expect(saved.mcpServers.local.command).toBe('node');
+    errorSpy.mockRestore();
+  });
+
+  it('should show and remove a server entry that failed to parse', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      mcpServers: {
+        broken: { type: 'http', url: 'not a url' },
+        local: { type: 'stdio', command: 'node' }
+      }
+    }));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const manager = new ConfigManager(configPath);
+    await manager.loadConfig();
+    expect(manager.getInvalidServer('broken')).toEqual({
+      entry: { type: 'http', url: 'not a url' },
+      error: expect.stringContaining('url')
+    });
+    expect(manager.getInvalidServer('local')).toBeUndefined();
+
+    expect(await manager.removeMcpServer('broken')).toBe(true);
+    expect(await manager.removeMcpServer('missing')).toBe(false);
+    const saved = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+    expect(Object.keys(saved.mcpServers)).toEqual(['local']);
+    errorSpy.mockRestore();
+  });
+
+  it('should refuse to overwrite a config file that failed to parse', async () => {
+    const content = JSON.stringify({ defaultModel: 'haiku', conversationTokenBudget: -5 });
+    await fs.writeFile(configPath, content);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const manager = new ConfigManager(configPath);
+    expect(await manager.loadConfig()).toEqual({ mcpServers: {} });
+    await expect(manager.setConfig({ defaultModel: 'sonnet' })).rejects.toThrow('Not saving the configuration');
+    expect(await fs.readFile(configPath, 'utf-8')).toBe(content);
+
+    await fs.writeFile(configPath, '{ "defaultModel": ');
+    await expect(manager.setConfig({ defaultModel: 'sonnet' })).rejects.toThrow('not valid JSON');
+    errorSpy.mockRestore();
+  });
+});
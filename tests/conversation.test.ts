@@ -0,0 +1,64 @@
+import { jest } from '@jest/globals';
+import { Conversation, estimateTokens, formatTranscript } from '../src/llm/conversation';
+
+describe('Conversation', () => {
+  it('should accumulate turns as messages', () => {
+    const conversation = new Conversation();
+    conversation.addTurn('list files', [{ role: 'assistant', content: '```zsh\nls\n```' }]);
+    conversation.addTurn('now hidden ones', [{ role: 'assistant', content: '```zsh\nls -a\n```' }]);
+
+    const messages = conversation.getMessages();
+    expect(messages).toHaveLength(4);
+    expect(messages[0]).toEqual({ role: 'user', content: 'list files' });
+    expect(messages[3].role).toBe('assistant');
+  });
+
+  it('should not compact under the token budget', async () => {
+    const conversation = new Conversation(1000);
+    conversation.addTurn('hi', [{ role: 'assistant', content: 'hello' }]);
+
+    const summarize = jest.fn(async () => 'summary');
+    expect(await conversation.compact(summarize)).toBe(false);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('should summarise older turns over the token budget', async () => {
+    const conversation = new Conversation(50);
+    for (let i = 0; i < 4; i++) {
+      conversation.addTurn(`question ${i}`, [{ role: 'assistant', content: 'x'.repeat(100) }]);
+    }
+
+    const summarize = jest.fn(async (_transcript: string) => 'earlier summary');
+    expect(await conversation.compact(summarize)).toBe(true);
+
+    expect(summarize.mock.calls[0][0]).toContain('USER: question 0');
+    expect(conversation.getSummary()).toBe('earlier summary');
+    const messages = conversation.getMessages();
+    expect(messages).toHaveLength(4);
+    expect(messages[0]).toEqual({ role: 'user', content: 'question 2' });
+  });
+
+  it('should drop older turns even if summarisation fails', async () => {
+    const conversation = new Conversation(10);
+    for (let i = 0; i < 3; i++) {
+      conversation.addTurn(`question ${i}`, [{ role: 'assistant', content: 'y'.repeat(100) }]);
+    }
+
+    expect(await conversation.compact(async () => { throw new Error('offline'); })).toBe(true);
+    expect(conversation.getSummary()).toBe('');
+    expect(conversation.getMessages()[0]).toEqual({ role: 'user', content: 'question 1' });
+  });
+
+  it('should render tool calls and results in transcripts', () => {
+    const transcript = formatTranscript([
+      { role: 'assistant', content: [{ type: 'tool-call', toolCallId: '1', toolName: 'read_file_content', args: { path: 'a.txt' } }] },
+      { role: 'tool', content: [{ type: 'tool-result', toolCallId: '1', toolName: 'read_file_content', result: 'contents' }] }
+    ]);
+    expect(transcript).toContain('TOOL CALL: read_file_content({"path":"a.txt"})');
+    expect(transcript).toContain('TOOL RESULT (read_file_content): contents');
+  });
+
+  it('should estimate tokens from content length', () => {
+    expect(estimateTokens([{ role: 'user', content: 'abcdefgh' }])).toBe(2);
+  });
+});
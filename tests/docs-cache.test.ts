@@ -0,0 +1,163 @@
+import { CommandDocsCache } from '../src/context/docs-cache.js';
+import { loadCommandDocs, type CommandDocs } from '../src/context/docs.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+const DOCS: CommandDocs = {
+  source: 'man',
+  sections: [{ name: 'NAME', content: 'fakedoc - a test command' }],
+};
+
+describe('CommandDocsCache', () => {
+  let tmpDir: string;
+  let cacheDir: string;
+  let binary: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hey-ai-docs-cache-'));
+    cacheDir = path.join(tmpDir, 'cache');
+    fs.mkdirSync(path.join(tmpDir, 'bin'));
+    binary = path.join(tmpDir, 'bin', 'fakedoc');
+    fs.writeFileSync(binary, '#!/bin/sh\necho fake\n', { mode: 0o755 });
+    process.env.PATH = `${path.join(tmpDir, 'bin')}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store and return parsed docs', async () => {
+    const cache = new CommandDocsCache(cacheDir);
+    await cache.set('fakedoc', DOCS);
+
+    expect(await cache.get('fakedoc')).toEqual(DOCS);
+    expect(await cache.get('other')).toBeNull();
+  });
+
+  it('should drop entries when the binary changes', async () => {
+    const cache = new CommandDocsCache(cacheDir);
+    await cache.set('fakedoc', DOCS);
+
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(binary, later, later);
+
+    expect(await cache.get('fakedoc')).toBeNull();
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+
+  it('should keep docs for commands without a binary', async () => {
+    const cache = new CommandDocsCache(cacheDir);
+    await cache.set('no-such-command-xyz', DOCS);
+
+    expect(await cache.get('no-such-command-xyz')).toEqual(DOCS);
+    const [entry] = await cache.list();
+    expect(entry).toMatchObject({ command: 'no-such-command-xyz', binary: null, stale: false });
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = new CommandDocsCache(cacheDir, { ttlDays: 1 });
+    await cache.set('fakedoc', DOCS);
+
+    const [file] = fs.readdirSync(cacheDir);
+    const entry = JSON.parse(fs.readFileSync(path.join(cacheDir, file), 'utf8'));
+    entry.cachedAt = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    fs.writeFileSync(path.join(cacheDir, file), JSON.stringify(entry));
+
+    expect((await cache.list())[0].stale).toBe(true);
+    expect(await cache.get('fakedoc')).toBeNull();
+  });
+
+  it('should list entries and report stats', async () => {
+    const cache = new CommandDocsCache(cacheDir, { maxSizeMB: 5 });
+    await cache.set('fakedoc', DOCS);
+    await cache.set('fakedoc sub', { source: 'help', sections: [{ name: 'OPTIONS', content: '-a  All' }] });
+
+    const entries = await cache.list();
+    expect(entries.map(e => e.command).sort()).toEqual(['fakedoc', 'fakedoc sub']);
+    expect(entries.find(e => e.command === 'fakedoc')?.binary).toBe(binary);
+
+    const stats = await cache.stats();
+    expect(stats).toMatchObject({ entries: 2, stale: 0, maxBytes: 5 * 1024 * 1024, ttlDays: 30 });
+    expect(stats.bySource).toEqual({ man: 1, tldr: 0, help: 1 });
+    expect(stats.totalBytes).toBeGreaterThan(0);
+  });
+
+  it('should clear single commands or everything', async () => {
+    const cache = new CommandDocsCache(cacheDir);
+    await cache.set('fakedoc', DOCS);
+    await cache.set('fakedoc sub', DOCS);
+    await cache.set('other', DOCS);
+
+    expect(await cache.clear(['fakedoc  sub'])).toBe(1);
+    expect((await cache.list()).map(e => e.command).sort()).toEqual(['fakedoc', 'other']);
+
+    expect(await cache.clear()).toBe(2);
+    expect(await cache.list()).toEqual([]);
+  });
+
+  it('should ignore entries in the old format', async () => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(path.join(cacheDir, 'other.json'), JSON.stringify({ source: 'man', sections: [] }));
+
+    const cache = new CommandDocsCache(cacheDir);
+    expect(await cache.get('other')).toBeNull();
+    expect(fs.existsSync(path.join(cacheDir, 'other.json'))).toBe(false);
+  });
+});
+
+describe('loadCommandDocs', () => {
+  let tmpDir: string;
+  let cache: InstanceType<typeof CommandDocsCache>;
+  let argsLog: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hey-ai-docs-load-'));
+    cache = new CommandDocsCache(path.join(tmpDir, 'cache'));
+    argsLog = path.join(tmpDir, 'args.log');
+    fs.mkdirSync(path.join(tmpDir, 'bin'));
+    // Records every invocation, prints help only for --help
+    fs.writeFileSync(path.join(tmpDir, 'bin', 'fakehelp'),
+      `#!/bin/sh\necho "$@" >> '${argsLog}'\n[ "$1" = "--help" ] || exit 1\nprintf 'Usage: fakehelp [OPTIONS]\\n\\nOptions:\\n  -q, --quiet  Less output\\n'\n`,
+      { mode: 0o755 });
+    process.env.PATH = `${path.join(tmpDir, 'bin')}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should not run the command when --help is turned off', async () => {
+    expect(await loadCommandDocs('fakehelp', cache, { runHelp: false })).toBeNull();
+    expect(fs.existsSync(argsLog)).toBe(false);
+  });
+
+  it('should run only --help, and serve the cached result afterwards', async () => {
+    const docs = await loadCommandDocs('fakehelp', cache);
+    expect(docs?.source).toBe('help');
+    expect(fs.readFileSync(argsLog, 'utf-8')).toBe('--help\n');
+
+    expect(await loadCommandDocs('fakehelp', cache, { runHelp: false })).toEqual(docs);
+    expect(fs.readFileSync(argsLog, 'utf-8')).toBe('--help\n');
+  });
+
+  it('should not fall back to -h', async () => {
+    expect(await loadCommandDocs('fakehelp sub', cache)).toBeNull();
+    expect(fs.readFileSync(argsLog, 'utf-8')).toBe('sub --help\n');
+  });
+
+  it('should not run executables from the current project', async () => {
+    const cwd = process.cwd();
+    process.chdir(tmpDir);
+    try {
+      expect(await loadCommandDocs('fakehelp', cache)).toBeNull();
+    } finally {
+      process.chdir(cwd);
+    }
+    expect(fs.existsSync(argsLog)).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { parseManPage, parseHelpOutput, findSection, findFlag, normalizeFlag, formatDocsOverview, type CommandDocs } from '../src/context/docs.js';
+
+// `man ls | col -b` (GNU, trimmed)
+const GNU_LS = `LS(1)                            User Commands                            LS(1)
+
+NAME
+       ls - list directory contents
+
+SYNOPSIS
+       ls [OPTION]... [FILE]...
+
+DESCRIPTION
+       List  information  about  the FILEs (the current directory by default).
+
+       -a, --all
+              do not ignore entries starting with .
+
+       --color[=WHEN]
+              color the output WHEN; more info below
+
+       -l     use a long listing format
+
+              (continued paragraph)
+
+       -Z, --context
+              print any security context of each file
+
+EXIT STATUS
+       0      if OK,
+
+SEE ALSO
+       Full documentation <https://www.gnu.org/software/coreutils/ls>
+
+GNU coreutils 9.1                September 2022                           LS(1)
+`;
+
+// `man sed | col -b` (BSD, trimmed)
+const BSD_SED = `SED(1)                  General Commands Manual                  SED(1)
+
+NAME
+     sed – stream editor
+
+SYNOPSIS
+     sed [-Ealnru] command [-I extension] [-i extension] [file ...]
+
+OPTIONS
+     -E      Interpret regular expressions as extended (modern) regular
+             expressions rather than basic regular expressions (BRE's).
+
+     -i extension
+             Edit files in-place similarly to -I, but treat each file
+             independently from other files.
+
+     -n      By default, each line of input is echoed to the standard output
+             after all of the commands have been applied to it.
+
+macOS 14.5                        June 10, 2020                        macOS 14.5
+`;
+
+describe('parseManPage', () => {
+  it('should split a man page into dedented sections', () => {
+    const sections = parseManPage(GNU_LS);
+
+    expect(sections.map(s => s.name)).toEqual(['NAME', 'SYNOPSIS', 'DESCRIPTION', 'EXIT STATUS', 'SEE ALSO']);
+    expect(sections[0].content).toBe('ls - list directory contents');
+    expect(sections[2].content).toContain('-a, --all\n       do not ignore');
+    expect(sections[4].content).not.toContain('GNU coreutils');
+  });
+});
+
+// `cargo build --help` style
+const CLAP_HELP = `Compile a local package and all of its dependencies
+
+Usage: cargo build [OPTIONS]
+
+Options:
+  -q, --quiet                   Do not print cargo log messages
+      --message-format <FMT>    Error format
+  -v, --verbose...              Use verbose output (-vv very verbose/build.rs output)
+
+Package Selection:
+  -p, --package [<SPEC>]  Package to build (see \`cargo help pkgid\`)
+
+Options:
+  -h, --help  Print help
+`;
+
+// `gh --help` style
+const GH_HELP = `Work seamlessly with GitHub from the command line.
+
+USAGE
+  gh <command> <subcommand> [flags]
+
+CORE COMMANDS
+  auth:        Authenticate gh and git with GitHub
+  browse:      Open the repository in the browser
+
+FLAGS
+  --help      Show help for command
+  --version   Show gh version
+`;
+
+describe('parseHelpOutput', () => {
+  it('should split colon-style help into sections', () => {
+    const sections = parseHelpOutput(CLAP_HELP);
+
+    expect(sections.map(s => s.name)).toEqual(['DESCRIPTION', 'SYNOPSIS', 'OPTIONS', 'PACKAGE SELECTION']);
+    expect(sections[1].content).toBe('cargo build [OPTIONS]');
+    // Both Options groups are merged
+    expect(sections[2].content).toContain('--quiet');
+    expect(sections[2].content).toContain('--help');
+  });
+
+  it('should split upper-case help headings into sections', () => {
+    const sections = parseHelpOutput(GH_HELP);
+
+    expect(sections.map(s => s.name)).toEqual(['DESCRIPTION', 'SYNOPSIS', 'CORE COMMANDS', 'FLAGS']);
+    expect(sections[2].content).toContain('auth:        Authenticate');
+  });
+
+  it('should support flag lookup in help output', () => {
+    const docs: CommandDocs = { source: 'help', sections: parseHelpOutput(CLAP_HELP) };
+
+    expect(findFlag(docs, '-q')).toBe('-q, --quiet                   Do not print cargo log messages');
+    expect(findFlag(docs, '--message-format')).toContain('Error format');
+    expect(findFlag(docs, '-p')).toContain('Package to build');
+    expect(findFlag({ source: 'help', sections: parseHelpOutput(GH_HELP) }, '--version')).toContain('Show gh version');
+  });
+});
+
+describe('findSection', () => {
+  it('should find sections case-insensitively', () => {
+    const docs: CommandDocs = { source: 'man', sections: parseManPage(GNU_LS) };
+
+    expect(findSection(docs, 'exit status')?.content).toBe('0      if OK,');
+    expect(findSection(docs, 'ENVIRONMENT')).toBeNull();
+  });
+});
+
+describe('findFlag', () => {
+  const ls: CommandDocs = { source: 'man', sections: parseManPage(GNU_LS) };
+  const sed: CommandDocs = { source: 'man', sections: parseManPage(BSD_SED) };
+
+  it('should find GNU flags documented under DESCRIPTION', () => {
+    expect(findFlag(ls, '-a')).toBe('-a, --all\n       do not ignore entries starting with .');
+    expect(findFlag(ls, '--all')).toBe(findFlag(ls, '-a'));
+    expect(findFlag(ls, '--color=always')).toContain('color the output WHEN');
+  });
+
+  it('should keep paragraphs separated by blank lines together', () => {
+    const description = findFlag(ls, '-l');
+    expect(description).toContain('use a long listing format');
+    expect(description).toContain('(continued paragraph)');
+    expect(description).not.toContain('--context');
+  });
+
+  it('should find BSD flags with inline descriptions', () => {
+    expect(findFlag(sed, '-i')).toContain('Edit files in-place');
+    expect(findFlag(sed, '-i')).not.toContain('By default');
+    expect(findFlag(sed, 'E')).toContain('Interpret regular expressions');
+  });
+
+  it('should not match flags that only share a prefix', () => {
+    expect(findFlag(ls, '-c')).toBeNull();
+    expect(findFlag(sed, '--foo')).toBeNull();
+  });
+});
+
+describe('normalizeFlag', () => {
+  it('should add dashes and drop values', () => {
+    expect(normalizeFlag('z')).toBe('-z');
+    expect(normalizeFlag('null')).toBe('--null');
+    expect(normalizeFlag('--color=auto')).toBe('--color');
+    expect(normalizeFlag('-i')).toBe('-i');
+  });
+});
+
+describe('formatDocsOverview', () => {
+  it('should show the overview sections and list the others', () => {
+    const overview = formatDocsOverview({ source: 'man', sections: parseManPage(BSD_SED) });
+
+    expect(overview).toContain('### NAME\nsed – stream editor');
+    expect(overview).toContain('### SYNOPSIS');
+    expect(overview).toContain('Other sections: OPTIONS');
+    expect(overview).not.toContain('in-place');
+  });
+
+  it('should show tldr pages as they are', () => {
+    const overview = formatDocsOverview({ source: 'tldr', sections: [{ name: 'EXAMPLES', content: '- List files:\n  ls' }] });
+    expect(overview).toBe('### EXAMPLES\n- List files:\n  ls');
+  });
+});
@@ -38,5 +38,89 @@ describe('FileContext', () => {
     expect(content).toContain('truncated');
     expect(content.split('\n').length).toBeLessThan(200);
   });
-});
 
+  it('should list entries with sizes, roll-ups, sorting and pagination', async () => {
+    await fs.mkdir(path.join(testDir, 'deep', 'a', 'b'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'deep', 'top.txt'), '12345');
+    await fs.writeFile(path.join(testDir, 'deep', 'a', 'one.txt'), '1');
+    await fs.writeFile(path.join(testDir, 'deep', 'a', 'b', 'two.txt'), '22');
+
+    const context = new FileContext(testDir);
+    const listing = await context.listEntries({ path: 'deep', depth: 1 });
+    expect(listing.totalFiles).toBe(3);
+    expect(listing.entries).toEqual([
+      expect.objectContaining({ path: 'a/', type: 'directory', files: 2, size: 3 }),
+      expect.objectContaining({ path: 'top.txt', type: 'file', size: 5 }),
+    ]);
+
+    const bySize = await context.listEntries({ path: 'deep', sort: 'size', offset: 1, limit: 1 });
+    expect(bySize.entries.map(e => e.path)).toEqual(['a/b/two.txt']);
+    expect(bySize.totalEntries).toBe(3);
+
+    const matching = await context.listEntries({ path: 'deep', pattern: 'two.*' });
+    expect(matching.entries.map(e => e.path)).toEqual(['a/b/two.txt']);
+  });
+
+  it('should not list entries outside the directory through the pattern', async () => {
+    const context = new FileContext(path.join(testDir, 'deep'));
+
+    await expect(context.listEntries({ pattern: '../*.txt' })).rejects.toThrow('Pattern must be relative');
+    await expect(context.listEntries({ pattern: path.join(testDir, '*.txt') })).rejects.toThrow('Pattern must be relative');
+  });
+
+  describe('readFile', () => {
+    beforeAll(async () => {
+      const lines = Array.from({ length: 1000 }, (_, i) => `line ${i + 1}`).join('\n');
+      await fs.writeFile(path.join(testDir, 'app.log'), lines + '\n');
+      await fs.writeFile(path.join(testDir, 'image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]));
+      await fs.writeFile(path.join(testDir, 'latin1.txt'), Buffer.from('caf\xe9\n', 'latin1'));
+      await fs.writeFile(path.join(testDir, 'utf16.txt'), Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('hi\nthere', 'utf16le')]));
+    });
+
+    it('should read line ranges with metadata', async () => {
+      const context = new FileContext(testDir);
+      const result = await context.readFile('app.log', { startLine: 800, endLine: 802 });
+      expect(result).toMatchObject({ startLine: 800, endLine: 802, totalLines: 1000, truncated: false, encoding: 'utf-8' });
+      expect(result.content).toBe('line 800\nline 801\nline 802');
+      expect(result.size).toBeGreaterThan(0);
+    });
+
+    it('should cap ranges at maxLines and read the tail', async () => {
+      const context = new FileContext(testDir);
+      const capped = await context.readFile('app.log', { startLine: 10, maxLines: 5 });
+      expect(capped).toMatchObject({ startLine: 10, endLine: 14, truncated: true });
+
+      const tail = await context.readFile('app.log', { tail: 2 });
+      expect(tail).toMatchObject({ startLine: 999, endLine: 1000, content: 'line 999\nline 1000', truncated: false });
+    });
+
+    it('should count lines of files without a final newline', async () => {
+      await fs.writeFile(path.join(testDir, 'short.txt'), 'one\ntwo\nthree');
+      const context = new FileContext(testDir);
+      expect(await context.readFile('short.txt', { endLine: 1 })).toMatchObject({ content: 'one', totalLines: 3, truncated: false });
+    });
+
+    it('should cut long lines and cap the returned characters', async () => {
+      await fs.writeFile(path.join(testDir, 'bundle.min.js'), 'x'.repeat(50000) + '\nshort\n' + 'y'.repeat(50000));
+      const context = new FileContext(testDir);
+
+      const result = await context.readFile('bundle.min.js', { maxLineLength: 100 });
+      expect(result).toMatchObject({ startLine: 1, endLine: 3, totalLines: 3, longLines: 2, truncated: false });
+      expect(result.content.split('\n')[0]).toBe(`${'x'.repeat(100)} … [49900 more characters]`);
+
+      const capped = await context.readFile('bundle.min.js', { maxChars: 2000 });
+      expect(capped).toMatchObject({ startLine: 1, endLine: 2, totalLines: 3, truncated: true });
+      expect(capped.content.length).toBeLessThanOrEqual(2000);
+
+      const tail = await context.readFile('bundle.min.js', { tail: 3, maxChars: 1100 });
+      expect(tail).toMatchObject({ startLine: 2, endLine: 3, truncated: true });
+    });
+
+    it('should detect binary files and other encodings', async () => {
+      const context = new FileContext(testDir);
+      expect(await context.readFile('image.png')).toMatchObject({ binary: true, encoding: null, content: '' });
+      expect(await context.readFile('latin1.txt')).toMatchObject({ encoding: 'latin1', content: 'café' });
+      expect(await context.readFile('utf16.txt')).toMatchObject({ encoding: 'utf-16le', content: 'hi\nthere' });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+import { checkCommandFlags } from '../src/shell/flags.js';
+import { parseManPage, parseHelpOutput, type CommandDocs } from '../src/context/docs.js';
+
+const LS_MAN = `LS(1)                            User Commands                            LS(1)
+
+NAME
+       ls - list directory contents
+
+DESCRIPTION
+       -a, --all
+              do not ignore entries starting with .
+
+       -h, --human-readable
+              with -l and -s, print sizes like 1K 234M 2G etc.
+
+       -l     use a long listing format
+
+       -w, --width=COLS
+              set output width to COLS.  0 means no limit
+
+GNU coreutils 9.1                September 2022                           LS(1)
+`;
+
+const SED_BSD_MAN = `SED(1)                  General Commands Manual                  SED(1)
+
+NAME
+     sed – stream editor
+
+OPTIONS
+     -E      Interpret regular expressions as extended (modern) regular
+             expressions rather than basic regular expressions (BRE's).
+
+     -e command
+             Append the editing commands specified by the command argument.
+
+     -i extension
+             Edit files in-place, saving backups with the specified
+             extension.
+
+macOS 14.5                        June 10, 2020                        macOS 14.5
+`;
+
+const FD_HELP = `A program to find entries in your filesystem
+
+Usage: fd [OPTIONS] [pattern] [path]...
+
+Options:
+  -H, --hidden                     Search hidden files and directories
+  -e, --extension <ext>            Filter by file extension
+  -x, --exec <cmd>...              Execute a command for each search result
+`;
+
+const GIT_COMMIT_HELP = `usage: git commit [-a | --interactive | --patch] [-m <msg>]
+
+    -m, --message <message>
+                          commit message
+    -a, --all             commit all changed files
+`;
+
+const DOCS: Record<string, CommandDocs> = {
+  ls: { source: 'man', sections: parseManPage(LS_MAN) },
+  sed: { source: 'man', sections: parseManPage(SED_BSD_MAN) },
+  fd: { source: 'help', sections: parseHelpOutput(FD_HELP) },
+  'git commit': { source: 'help', sections: parseHelpOutput(GIT_COMMIT_HELP) },
+  git: { source: 'man', sections: [{ name: 'NAME', content: 'git - the stupid content tracker' }] },
+  tar: { source: 'tldr', sections: [{ name: 'EXAMPLES', content: '- Extract: tar xf file.tar' }] },
+};
+
+const getDocs = jest.fn(async (command: string) => DOCS[command] || null);
+
+describe('checkCommandFlags', () => {
+  beforeEach(() => {
+    getDocs.mockClear();
+  });
+
+  it('should accept documented flags', async () => {
+    expect(await checkCommandFlags('ls -la --human-readable', getDocs)).toEqual([]);
+    expect(await checkCommandFlags('fd -H -e ts --exec wc -l', getDocs)).toEqual([]);
+  });
+
+  it('should report unknown long and short flags', async () => {
+    const warnings = await checkCommandFlags('fd --foo -e ts && ls -lq', getDocs);
+
+    expect(warnings.map(w => w.message)).toEqual([
+      'unknown flag `--foo` for `fd` (not in its --help output)',
+      'unknown flag `-q` for `ls` (not in its man page)',
+    ]);
+  });
+
+  it('should ignore values, operands and anything after --', async () => {
+    const warnings = await checkCommandFlags('ls -w80 --width=100 -- -notaflag && ls -l -5 "$dir"', getDocs);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should check subcommands against their own docs', async () => {
+    expect(await checkCommandFlags('git commit -am "fix"', getDocs)).toEqual([]);
+
+    const warnings = await checkCommandFlags('git commit --amend-all', getDocs);
+    expect(warnings).toEqual([expect.objectContaining({ command: 'git commit', flag: '--amend-all' })]);
+    expect(getDocs).toHaveBeenCalledWith('git commit');
+  });
+
+  it('should look through wrappers like sudo', async () => {
+    const warnings = await checkCommandFlags('sudo -u root ls --color-all', getDocs);
+    expect(warnings.map(w => w.flag)).toEqual(['--color-all']);
+  });
+
+  it('should skip functions, builtins, undocumented commands and tldr pages', async () => {
+    const code = `cleanup() {
+  local dir=$1
+  echo -n "Cleaning"
+  mytool --whatever
+  tar --bogus -xf archive.tar
+}
+cleanup -v`;
+    expect(await checkCommandFlags(code, getDocs)).toEqual([]);
+    expect(getDocs).not.toHaveBeenCalledWith('cleanup');
+    expect(getDocs).not.toHaveBeenCalledWith('echo');
+  });
+
+  it('should warn about sed -i without a suffix on BSD sed', async () => {
+    const warnings = await checkCommandFlags("sed -i 's/a/b/' file.txt", getDocs);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toMatch(/^`sed -i` on (macOS|BSD sed) requires an argument/);
+
+    expect(await checkCommandFlags("sed -i '' -E 's/a+/b/' file.txt", getDocs)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { GitContext } from '../src/context/git';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('GitContext', () => {
+  const testDir = path.join(os.tmpdir(), 'hey-ai-test-git');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: testDir, stdio: 'pipe' });
+
+  beforeAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test User');
+    git('config', 'user.email', 'test@example.com');
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should report an empty repository', async () => {
+    const context = new GitContext(testDir);
+    expect(await context.getRoot()).toBe(await fs.realpath(testDir));
+
+    const status = await context.getStatus();
+    expect(status).toMatchObject({ branch: 'main', head: null, upstream: null, staged: [], untracked: [] });
+    expect(await context.getLog()).toEqual([]);
+  });
+
+  it('should report staged, unstaged and untracked files', async () => {
+    await fs.writeFile(path.join(testDir, 'a.txt'), 'one\n');
+    await fs.writeFile(path.join(testDir, 'old name.txt'), 'rename me\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    await fs.writeFile(path.join(testDir, 'a.txt'), 'one\ntwo\n');
+    git('mv', 'old name.txt', 'new name.txt');
+    await fs.writeFile(path.join(testDir, 'b.txt'), 'new\n');
+
+    const context = new GitContext(testDir);
+    const status = await context.getStatus();
+    expect(status.branch).toBe('main');
+    expect(status.head).toMatch(/^[0-9a-f]{7}$/);
+    expect(status.staged).toEqual([{ path: 'new name.txt', kind: 'renamed', from: 'old name.txt' }]);
+    expect(status.unstaged).toEqual([{ path: 'a.txt', kind: 'modified' }]);
+    expect(status.untracked).toEqual(['b.txt']);
+  });
+
+  it('should return the log and capped diffs', async () => {
+    const context = new GitContext(testDir);
+
+    const [commit] = await context.getLog({ count: 5, path: 'a.txt' });
+    expect(commit).toMatchObject({ author: 'Test User', subject: 'Initial commit' });
+    expect(await context.getLog({ path: 'b.txt' })).toEqual([]);
+
+    const working = await context.getDiff();
+    expect(working.diff).toContain('+two');
+    expect(working.stat).toContain('a.txt');
+    expect(working.truncated).toBe(false);
+
+    const staged = await context.getDiff({ staged: true });
+    expect(staged.diff).toContain('rename to new name.txt');
+
+    const capped = await context.getDiff({ maxChars: 20 });
+    expect(capped.diff).toHaveLength(20);
+    expect(capped.truncated).toBe(true);
+  });
+
+  it('should detect directories outside a repository', async () => {
+    expect(await new GitContext(os.tmpdir()).getRoot()).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { parseDateOption } from '../src/utils/dates';
+import {
+  buildHistoryFilter,
+  formatHistoryJsonl,
+  formatHistoryMarkdown,
+  parseHistoryJsonl,
+} from '../src/commands/history';
+
+describe('history command options', () => {
+  it('should parse relative dates', () => {
+    const twoDays = 2 * 24 * 60 * 60 * 1000;
+    const before = Date.now();
+    const parsed = parseDateOption('2d');
+    const after = Date.now();
+    expect(parsed).toBeGreaterThanOrEqual(before - twoDays);
+    expect(parsed).toBeLessThanOrEqual(after - twoDays);
+  });
+
+  it('should parse absolute dates', () => {
+    expect(parseDateOption('2024-05-01T00:00:00Z')).toBe(Date.UTC(2024, 4, 1));
+  });
+
+  it('should parse calendar days as local days, ending them for --until', () => {
+    expect(parseDateOption('2024-05-01')).toBe(new Date(2024, 4, 1).getTime());
+    expect(parseDateOption('2024-05-01', { endOfDay: true })).toBe(new Date(2024, 4, 2).getTime() - 1);
+    expect(() => parseDateOption('2024-02-31')).toThrow('Invalid date');
+
+    const tomorrow = new Date();
+    tomorrow.setHours(0, 0, 0, 0);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    expect(parseDateOption('today', { endOfDay: true })).toBe(tomorrow.getTime() - 1);
+    expect(buildHistoryFilter({ since: '2024-05-01', until: '2024-05-01' })).toMatchObject({
+      since: new Date(2024, 4, 1).getTime(),
+      until: new Date(2024, 4, 2).getTime() - 1
+    });
+  });
+
+  it('should parse today and yesterday as the start of the day', () => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    expect(parseDateOption('today')).toBe(today.getTime());
+    expect(parseDateOption('Yesterday')).toBeLessThan(today.getTime());
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => parseDateOption('yesterday-ish')).toThrow('Invalid date');
+  });
+
+  it('should default --cwd without a value to the current directory', () => {
+    expect(buildHistoryFilter({ cwd: true }).cwd).toBe(process.cwd());
+    expect(buildHistoryFilter({}).cwd).toBeUndefined();
+  });
+
+  describe('export and import', () => {
+    const entry = {
+      id: 7,
+      prompt: 'list large files',
+      response: '```bash\ndu -sh * | sort -h\n```',
+      timestamp: Date.UTC(2024, 4, 1),
+      cwd: '/project',
+      model: 'gpt-4o-mini',
+      exit_code: 0,
+      conversation_id: null,
+      validation: 'ok',
+    };
+
+    it('should round-trip entries through JSONL without local ids', () => {
+      const jsonl = formatHistoryJsonl([entry]);
+      expect(jsonl).not.toContain('"id"');
+      const { id: _id, ...portable } = entry;
+      expect(parseHistoryJsonl(jsonl + '\n')).toEqual([portable]);
+    });
+
+    it('should report the line of an invalid entry', () => {
+      const jsonl = formatHistoryJsonl([entry]) + '{"prompt": "missing fields"}\n';
+      expect(() => parseHistoryJsonl(jsonl)).toThrow('line 2');
+      expect(() => parseHistoryJsonl('not json')).toThrow('Invalid JSON on line 1');
+    });
+
+    it('should render Markdown with metadata', () => {
+      const markdown = formatHistoryMarkdown([entry]);
+      expect(markdown).toContain('## list large files');
+      expect(markdown).toContain('- **Date:** 2024-05-01T00:00:00.000Z');
+      expect(markdown).toContain('- **Exit code:** 0');
+      expect(markdown).toContain('- **Syntax check:** ok');
+      expect(markdown).toContain('du -sh * | sort -h');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { ZshHistory } from '../src/context/history';
+import { ZshHistory, BashHistory, FishHistory, createHistoryProvider, queryHistory, unmetafy } from '../src/context/history';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -27,5 +27,128 @@ describe('ZshHistory', () => {
     expect(entries[0].command).toBe('cd tools');
     expect(entries[1].command).toBe('pnpm build');
   });
+
+  it('should parse plain lines, continuations and metafied bytes', async () => {
+    const plainPath = path.join(os.tmpdir(), '.zsh_history_plain_test');
+    // "→" is E2 86 92; zsh stores 0x86 and 0x92 as Meta (0x83) + byte ^ 0x20
+    const arrow = Buffer.from([0xe2, 0x83, 0x86 ^ 0x20, 0x83, 0x92 ^ 0x20]);
+    await fs.writeFile(plainPath, Buffer.concat([
+      Buffer.from('git status\n: 1698212630:4;for f in *.txt; do\\\n  echo $f\\\ndone\n: 1698212640:0;echo '),
+      arrow,
+      Buffer.from('\n')
+    ]));
+
+    try {
+      const entries = await new ZshHistory(plainPath).getEntries();
+      expect(entries).toEqual([
+        { timestamp: 0, duration: 0, command: 'git status' },
+        { timestamp: 1698212630, duration: 4, command: 'for f in *.txt; do\n  echo $f\ndone' },
+        { timestamp: 1698212640, duration: 0, command: 'echo →' }
+      ]);
+    } finally {
+      await fs.unlink(plainPath);
+    }
+  });
+
+  it('should leave non-metafied content untouched', () => {
+    const content = Buffer.from('echo héllo');
+    expect(unmetafy(content)).toBe(content);
+  });
+});
+
+describe('BashHistory', () => {
+  const bashPath = path.join(os.tmpdir(), '.bash_history_test');
+
+  afterEach(async () => {
+    await fs.rm(bashPath, { force: true });
+  });
+
+  it('should parse plain bash history', async () => {
+    await fs.writeFile(bashPath, 'ls\ncd /tmp\n\n');
+    const entries = await new BashHistory(bashPath).getEntries();
+    expect(entries).toEqual([
+      { timestamp: 0, duration: 0, command: 'ls' },
+      { timestamp: 0, duration: 0, command: 'cd /tmp' }
+    ]);
+  });
+
+  it('should parse HISTTIMEFORMAT timestamps and multi-line commands', async () => {
+    await fs.writeFile(bashPath, 'old command\n#1698212617\nls -la\n#1698212620\nfor i in 1 2; do\n  echo $i\ndone\n');
+    const entries = await new BashHistory(bashPath).getLastEntries(2);
+    expect(entries).toEqual([
+      { timestamp: 1698212617, duration: 0, command: 'ls -la' },
+      { timestamp: 1698212620, duration: 0, command: 'for i in 1 2; do\n  echo $i\ndone' }
+    ]);
+  });
+});
+
+describe('FishHistory', () => {
+  it('should parse fish_history records', async () => {
+    const fishPath = path.join(os.tmpdir(), 'fish_history_test');
+    await fs.writeFile(fishPath, [
+      '- cmd: ls -la',
+      '  when: 1698212617',
+      '- cmd: echo one\\ntwo \\\\ three',
+      '  when: 1698212620',
+      '  paths:',
+      '    - two',
+      ''
+    ].join('\n'));
+
+    try {
+      const entries = await new FishHistory(fishPath).getEntries();
+      expect(entries).toEqual([
+        { timestamp: 1698212617, duration: 0, command: 'ls -la' },
+        { timestamp: 1698212620, duration: 0, command: 'echo one\ntwo \\ three' }
+      ]);
+    } finally {
+      await fs.unlink(fishPath);
+    }
+  });
+});
+
+describe('createHistoryProvider', () => {
+  const originalShell = process.env.SHELL;
+
+  afterEach(() => {
+    process.env.SHELL = originalShell;
+  });
+
+  it('should pick the provider from $SHELL or config', () => {
+    process.env.SHELL = '/usr/local/bin/fish';
+    expect(createHistoryProvider().shell).toBe('fish');
+    expect(createHistoryProvider({ shell: 'bash' }).shell).toBe('bash');
+    process.env.SHELL = '/bin/tcsh';
+    expect(createHistoryProvider().shell).toBe('zsh');
+  });
 });
 
+describe('queryHistory', () => {
+  const entries = [
+    { timestamp: 100, duration: 3, command: 'make build' },
+    { timestamp: 200, duration: 0, command: 'git status' },
+    { timestamp: 0, duration: 0, command: 'git status' },
+    { timestamp: 300, duration: 40, command: 'make test' },
+    { timestamp: 400, duration: 0, command: 'git status' }
+  ];
+
+  it('should return everything in order by default', () => {
+    expect(queryHistory(entries).map(e => e.command)).toEqual(entries.map(e => e.command));
+  });
+
+  it('should skip entries without timestamps for date ranges', () => {
+    expect(queryHistory(entries, { since: 150, until: 350 }).map(e => e.timestamp)).toEqual([200, 300]);
+  });
+
+  it('should keep the latest occurrence when unique', () => {
+    const result = queryHistory(entries, { pattern: 'git', unique: true });
+    expect(result).toEqual([{ timestamp: 400, duration: 0, command: 'git status', count: 3 }]);
+  });
+
+  it('should sort by frequency and duration', () => {
+    expect(queryHistory(entries, { sort: 'frequency' }).map(e => e.command))
+      .toEqual(['git status', 'make test', 'make build']);
+    expect(queryHistory(entries, { sort: 'duration', limit: 2, pattern: /^make/ }).map(e => e.command))
+      .toEqual(['make test', 'make build']);
+  });
+});
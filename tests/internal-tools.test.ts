@@ -29,6 +29,14 @@ const createMockContext = (): InternalToolContext => ({
     addEntry: jest.fn().mockResolvedValue(1)
   } as any,
   history: {
+    shell: 'zsh',
+    getEntries: jest.fn().mockResolvedValue([
+      { timestamp: 1698200000, duration: 2, command: 'docker compose up -d' },
+      { timestamp: 1698210000, duration: 0, command: 'ls -la' },
+      { timestamp: 1698220000, duration: 95, command: 'pnpm test' },
+      { timestamp: 1698230000, duration: 1, command: 'docker ps' },
+      { timestamp: 1698240000, duration: 0, command: 'ls -la' }
+    ]),
     getLastEntries: jest.fn().mockResolvedValue([
       {
         timestamp: Math.floor(Date.now() / 1000),
@@ -48,37 +56,128 @@ const createMockContext = (): InternalToolContext => ({
       'src/config.ts',
       'package.json'
     ]),
+    listEntries: jest.fn().mockResolvedValue({
+      entries: [
+        { path: 'package.json', type: 'file', size: 1200, mtime: 0 },
+        { path: 'src/config.ts', type: 'file', size: 300, mtime: 0 },
+        { path: 'src/index.ts', type: 'file', size: 30800, mtime: 0 }
+      ],
+      totalEntries: 3,
+      totalFiles: 3
+    }),
     getFileContent: jest.fn().mockResolvedValue('file content here'),
+    readFile: jest.fn().mockResolvedValue({
+      size: 2048,
+      mtime: Date.UTC(2024, 4, 1),
+      encoding: 'utf-8',
+      binary: false,
+      totalLines: 840,
+      startLine: 1,
+      endLine: 100,
+      content: 'file content here',
+      truncated: true,
+      longLines: 0
+    }),
     getFileTree: jest.fn().mockResolvedValue('src/index.ts\nsrc/config.ts')
   } as any,
-  getManPage: jest.fn().mockResolvedValue('grep - search files for patterns')
+  git: {
+    getRoot: jest.fn().mockResolvedValue('/repo'),
+    getStatus: jest.fn().mockResolvedValue({
+      branch: 'main',
+      head: 'abc1234',
+      upstream: 'origin/main',
+      ahead: 2,
+      behind: 0,
+      staged: [{ path: 'src/new.ts', kind: 'renamed', from: 'src/old.ts' }],
+      unstaged: [{ path: 'README.md', kind: 'modified' }],
+      untracked: ['notes.txt'],
+      conflicted: []
+    }),
+    getLog: jest.fn().mockResolvedValue([
+      { hash: 'abc1234', author: 'Alice', date: '2024-05-01T10:00:00+02:00', subject: 'Fix parser' }
+    ]),
+    getDiff: jest.fn().mockResolvedValue({ stat: ' README.md | 1 +', diff: '+new line', truncated: false })
+  } as any,
+  search: {
+    search: jest.fn().mockResolvedValue({
+      matches: [
+        { file: 'src/config.ts', line: 12, text: 'export function loadConfig() {' },
+        { file: 'src/index.ts', line: 3, text: 'loadConfig();' }
+      ],
+      truncated: false,
+      engine: 'js'
+    })
+  } as any,
+  project: {
+    inspect: jest.fn().mockResolvedValue({
+      root: '/repo',
+      ecosystems: [{
+        kind: 'node',
+        manifest: 'package.json',
+        name: 'demo',
+        tool: 'pnpm',
+        tasks: [{ name: 'test', command: 'jest' }],
+        runTask: 'pnpm run <task>',
+        commands: ['pnpm install']
+      }]
+    })
+  } as any,
+  getCommandDocs: jest.fn().mockResolvedValue({
+    source: 'man',
+    sections: [
+      { name: 'NAME', content: 'grep - search files for patterns' },
+      { name: 'SYNOPSIS', content: 'grep [OPTION...] PATTERNS [FILE...]' },
+      { name: 'OPTIONS', content: '-i, --ignore-case\n       Ignore case distinctions.\n\n-z, --null-data\n       Treat input as lines terminated by a zero byte.' },
+      { name: 'EXIT STATUS', content: 'Normally 0 if a line is selected.' }
+    ]
+  }),
+  searchShellHistory: jest.fn().mockResolvedValue([
+    { id: 1, shell: 'zsh', command: 'ffmpeg -i in.mp4 -vf fps=10 out.gif', timestamp: 1698200000, count: 3, score: 0.9 }
+  ]),
+  searchProjectIndex: jest.fn().mockResolvedValue([
+    { path: 'src/http.ts', startLine: 51, endLine: 110, content: 'const MAX_RETRIES = 3;', distance: 0.2 }
+  ])
 });
 
 describe('Internal Tools Module', () => {
   describe('Tool Registration', () => {
-    it('should have 5 internal tools defined', () => {
-      expect(INTERNAL_TOOLS).toHaveLength(5);
+    it('should have 11 internal tools defined', () => {
+      expect(INTERNAL_TOOLS).toHaveLength(12);
     });
 
     it('should have correct tool names', () => {
       const expectedNames = [
         'search_session_history',
         'get_recent_commands',
+        'search_shell_history',
         'list_project_files',
+        'search_project',
+        'semantic_search_project',
         'read_file_content',
-        'get_command_docs'
+        'get_command_docs',
+        'get_project_info',
+        'get_git_status',
+        'get_git_log',
+        'get_git_diff'
       ];
       const actualNames = INTERNAL_TOOLS.map(t => t.name);
       expect(actualNames).toEqual(expectedNames);
     });
 
     it('should have INTERNAL_TOOL_NAMES set with all tools', () => {
-      expect(INTERNAL_TOOL_NAMES.size).toBe(5);
+      expect(INTERNAL_TOOL_NAMES.size).toBe(12);
       expect(INTERNAL_TOOL_NAMES.has('search_session_history')).toBe(true);
       expect(INTERNAL_TOOL_NAMES.has('get_recent_commands')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('search_shell_history')).toBe(true);
       expect(INTERNAL_TOOL_NAMES.has('list_project_files')).toBe(true);
       expect(INTERNAL_TOOL_NAMES.has('read_file_content')).toBe(true);
       expect(INTERNAL_TOOL_NAMES.has('get_command_docs')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('search_project')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('semantic_search_project')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('get_project_info')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('get_git_status')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('get_git_log')).toBe(true);
+      expect(INTERNAL_TOOL_NAMES.has('get_git_diff')).toBe(true);
     });
   });
 
@@ -101,7 +200,7 @@ describe('Internal Tools Module', () => {
   describe('getInternalToolDefs', () => {
     it('should return tool definitions without execute function', () => {
       const defs = getInternalToolDefs();
-      expect(defs).toHaveLength(5);
+      expect(defs).toHaveLength(12);
 
       for (const def of defs) {
         expect(def).toHaveProperty('name');
@@ -198,6 +297,101 @@ describe('Internal Tools Module', () => {
 
         expect(context.history.getLastEntries).toHaveBeenCalledWith(50);
       });
+
+      it('should filter by pattern and date range', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_recent_commands',
+          { pattern: 'DOCKER', since: new Date(1698210000 * 1000).toISOString() },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('docker ps');
+        expect(result.content).not.toContain('docker compose');
+        expect(result.content).not.toContain('ls -la');
+        expect(context.history.getLastEntries).not.toHaveBeenCalled();
+      });
+
+      it('should support regular expressions', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_recent_commands',
+          { pattern: '^docker (ps|compose)', regex: true },
+          context
+        );
+
+        expect(result.content).toContain('docker ps');
+        expect(result.content).toContain('docker compose up -d');
+
+        const invalid = await executeInternalTool('get_recent_commands', { pattern: '(', regex: true }, context);
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain('Invalid regular expression');
+      });
+
+      it('should rank commands by frequency and duration', async () => {
+        const context = createMockContext();
+        const byFrequency = await executeInternalTool('get_recent_commands', { sort: 'frequency', count: 1 }, context);
+        expect(byFrequency.content).toContain('1. `ls -la`');
+        expect(byFrequency.content).toContain('run 2 times');
+
+        const byDuration = await executeInternalTool('get_recent_commands', { sort: 'duration', count: 2 }, context);
+        expect(byDuration.content).toMatch(/1\. `pnpm test` \(.*took 95s/);
+        expect(byDuration.content).toContain('2. `docker compose up -d`');
+      });
+    });
+
+    describe('search_shell_history', () => {
+      it('should list matching past commands with dates and counts', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'search_shell_history',
+          { query: 'convert video to gif', limit: 5 },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('1. `ffmpeg -i in.mp4 -vf fps=10 out.gif`');
+        expect(result.content).toContain('relevance: 90%');
+        expect(result.content).toContain('run 3 times');
+        expect(context.searchShellHistory).toHaveBeenCalledWith('convert video to gif', 5);
+      });
+
+      it('should handle empty results', async () => {
+        const context = createMockContext();
+        (context.searchShellHistory as jest.Mock).mockResolvedValue([]);
+
+        const result = await executeInternalTool('search_shell_history', { query: 'nothing' }, context);
+
+        expect(result.success).toBe(true);
+        expect(result.content).toBe('No matching commands found in shell history.');
+      });
+    });
+
+    describe('semantic_search_project', () => {
+      it('should return matching chunks with line ranges', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'semantic_search_project',
+          { query: 'where are retries configured', limit: 50 },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('### src/http.ts:51-110');
+        expect(result.content).toContain('const MAX_RETRIES = 3;');
+        expect(context.searchProjectIndex).toHaveBeenCalledWith('where are retries configured', 10);
+      });
+
+      it('should suggest indexing when the project has no index', async () => {
+        const context = createMockContext();
+        (context.searchProjectIndex as jest.Mock).mockResolvedValue(null);
+
+        const result = await executeInternalTool('semantic_search_project', { query: 'retries' }, context);
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('hey-ai index');
+      });
     });
 
     describe('list_project_files', () => {
@@ -211,7 +405,7 @@ describe('Internal Tools Module', () => {
 
         expect(result.success).toBe(true);
         expect(result.content).toContain('Found 3 file(s)');
-        expect(result.content).toContain('index.ts');
+        expect(result.content).toContain('- src/index.ts (30.1 KB)');
         expect(result.content).toContain('package.json');
       });
 
@@ -223,12 +417,50 @@ describe('Internal Tools Module', () => {
           context
         );
 
-        expect(context.files.listFiles).toHaveBeenCalledWith(10);
+        expect(context.files.listEntries).toHaveBeenCalledWith(expect.objectContaining({ limit: 10, offset: 0, depth: 3 }));
+      });
+
+      it('should pass path, pattern, sort and offset and show roll-ups', async () => {
+        const context = createMockContext();
+        (context.files.listEntries as jest.Mock).mockResolvedValue({
+          entries: [{ path: 'utils/', type: 'directory', size: 4096, mtime: 0, files: 42 }],
+          totalEntries: 5,
+          totalFiles: 46
+        });
+
+        const result = await executeInternalTool(
+          'list_project_files',
+          { path: 'src', depth: 1, pattern: '*.ts', sort: 'size', offset: 2, limit: 1 },
+          context
+        );
+
+        expect(context.files.listEntries).toHaveBeenCalledWith({ path: 'src', depth: 1, pattern: '*.ts', sort: 'size', offset: 2, limit: 1 });
+        expect(result.content).toContain('- utils/ (42 files, 4.0 KB)');
+        expect(result.content).toContain('showing 3-3 of 5 entries');
+        expect(result.content).toContain('use offset 3');
+      });
+
+      it('should reject paths outside the current directory', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool('list_project_files', { path: '../..' }, context);
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Access denied');
+      });
+
+      it('should reject patterns outside the current directory', async () => {
+        const context = createMockContext();
+
+        for (const pattern of ['../*.txt', '/etc/*', 'src/../../*']) {
+          const result = await executeInternalTool('list_project_files', { pattern }, context);
+          expect(result.success).toBe(false);
+          expect(result.error).toContain('Access denied');
+        }
+        expect(context.files.listEntries).not.toHaveBeenCalled();
       });
     });
 
     describe('read_file_content', () => {
-      it('should read file content', async () => {
+      it('should read file content with metadata', async () => {
         const context = createMockContext();
         const result = await executeInternalTool(
           'read_file_content',
@@ -238,24 +470,47 @@ describe('Internal Tools Module', () => {
 
         expect(result.success).toBe(true);
         expect(result.content).toContain('file content here');
-        expect(context.files.getFileContent).toHaveBeenCalledWith('src/index.ts', 100);
+        expect(result.content).toContain('File `src/index.ts` (2.0 KB, 840 lines, modified');
+        expect(result.content).toContain('Lines 1-100 of 840');
+        expect(result.content).toContain('use start_line/end_line or tail to see more');
+        expect(context.files.readFile).toHaveBeenCalledWith('src/index.ts', {
+          startLine: undefined,
+          endLine: undefined,
+          tail: undefined,
+          maxLines: 100,
+          maxChars: 20000
+        });
       });
 
-      it('should respect max_lines parameter', async () => {
+      it('should respect max_lines and range parameters', async () => {
         const context = createMockContext();
         await executeInternalTool(
           'read_file_content',
-          { path: 'src/index.ts', max_lines: 50 },
+          { path: 'app.log', max_lines: 50, start_line: 800, end_line: 820 },
           context
         );
+        await executeInternalTool('read_file_content', { path: 'app.log', tail: 20 }, context);
 
-        expect(context.files.getFileContent).toHaveBeenCalledWith('src/index.ts', 50);
+        expect(context.files.readFile).toHaveBeenCalledWith('app.log', { startLine: 800, endLine: 820, tail: undefined, maxLines: 50, maxChars: 20000 });
+        expect(context.files.readFile).toHaveBeenCalledWith('app.log', { startLine: undefined, endLine: undefined, tail: 20, maxLines: 100, maxChars: 20000 });
+      });
+
+      it('should describe binary files instead of returning their content', async () => {
+        const context = createMockContext();
+        (context.files.readFile as jest.Mock).mockResolvedValue({
+          size: 5000, mtime: 0, encoding: null, binary: true, totalLines: 0, startLine: 0, endLine: 0, content: '', truncated: false
+        });
+
+        const result = await executeInternalTool('read_file_content', { path: 'logo.png' }, context);
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('binary file');
+        expect(result.content).not.toContain('```');
       });
 
       it('should handle file read errors', async () => {
         const context = createMockContext();
-        (context.files.getFileContent as jest.Mock).mockResolvedValue(
-          'Error reading file nonexistent.ts: ENOENT'
+        (context.files.readFile as jest.Mock).mockRejectedValue(
+          new Error("ENOENT: no such file or directory, stat 'nonexistent.ts'")
         );
 
         const result = await executeInternalTool(
@@ -280,12 +535,66 @@ describe('Internal Tools Module', () => {
 
         expect(result.success).toBe(true);
         expect(result.content).toContain('grep - search files');
-        expect(context.getManPage).toHaveBeenCalledWith('grep');
+        expect(result.content).toContain('Other sections: OPTIONS, EXIT STATUS');
+        expect(result.content).not.toContain('Ignore case');
+        expect(context.getCommandDocs).toHaveBeenCalledWith('grep');
+      });
+
+      it('should return a single section', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_command_docs',
+          { command: 'grep', section: 'exit status' },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('EXIT STATUS of `grep`');
+        expect(result.content).toContain('Normally 0');
+      });
+
+      it('should list available sections when the section is missing', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_command_docs',
+          { command: 'grep', section: 'ENVIRONMENT' },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('No ENVIRONMENT section');
+        expect(result.content).toContain('NAME, SYNOPSIS, OPTIONS, EXIT STATUS');
+      });
+
+      it('should return only the description of a flag', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_command_docs',
+          { command: 'grep', flag: '-z' },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('-z, --null-data');
+        expect(result.content).toContain('zero byte');
+        expect(result.content).not.toContain('Ignore case');
+      });
+
+      it('should say when a flag is not documented', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'get_command_docs',
+          { command: 'grep', flag: 'frobnicate' },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('`--frobnicate` is not documented');
       });
 
       it('should handle missing documentation', async () => {
         const context = createMockContext();
-        (context.getManPage as jest.Mock).mockResolvedValue(null);
+        (context.getCommandDocs as jest.Mock).mockResolvedValue(null);
 
         const result = await executeInternalTool(
           'get_command_docs',
@@ -298,6 +607,113 @@ describe('Internal Tools Module', () => {
       });
     });
 
+    describe('search_project', () => {
+      it('should return matches as file:line', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool(
+          'search_project',
+          { pattern: 'loadConfig', glob: '*.ts', max_results: 500 },
+          context
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('src/config.ts:12: export function loadConfig() {');
+        expect(result.content).toContain('src/index.ts:3: loadConfig();');
+        expect(context.search.search).toHaveBeenCalledWith('loadConfig', { glob: '*.ts', maxResults: 100, ignoreCase: false });
+      });
+
+      it('should note truncated results and reject invalid patterns', async () => {
+        const context = createMockContext();
+        (context.search.search as jest.Mock).mockResolvedValue({
+          matches: [{ file: 'a.ts', line: 1, text: 'x' }],
+          truncated: true,
+          engine: 'ripgrep'
+        });
+
+        const result = await executeInternalTool('search_project', { pattern: 'x' }, context);
+        expect(result.content).toContain('Showing the first 1 matches');
+
+        const invalid = await executeInternalTool('search_project', { pattern: '(' }, context);
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain('Invalid regular expression');
+      });
+
+      it('should reject globs outside the current directory', async () => {
+        const context = createMockContext();
+
+        for (const glob of ['../*.txt', '/etc/*', '{/etc/*,src/**}', '~/.ssh/*']) {
+          const result = await executeInternalTool('search_project', { pattern: 'x', glob }, context);
+          expect(result.success).toBe(false);
+          expect(result.error).toContain('Access denied');
+        }
+        expect(context.search.search).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('get_project_info', () => {
+      it('should describe detected ecosystems and their tasks', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool('get_project_info', {}, context);
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('## node (package.json) - demo');
+        expect(result.content).toContain('Tool: pnpm');
+        expect(result.content).toContain('  - test: jest');
+        expect(result.content).toContain('Run a task: pnpm run <task>');
+      });
+
+      it('should handle directories without manifests', async () => {
+        const context = createMockContext();
+        (context.project.inspect as jest.Mock).mockResolvedValue(null);
+
+        const result = await executeInternalTool('get_project_info', {}, context);
+        expect(result.content).toContain('No project manifests found');
+      });
+    });
+
+    describe('git tools', () => {
+      it('should summarise the repository status', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool('get_git_status', {}, context);
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain('Branch: main (tracking origin/main, 2 ahead, 0 behind)');
+        expect(result.content).toContain('Staged (1):\n  - renamed: src/old.ts -> src/new.ts');
+        expect(result.content).toContain('Unstaged (1):\n  - modified: README.md');
+        expect(result.content).toContain('Untracked (1):\n  - notes.txt');
+      });
+
+      it('should list commits and pass the path filter', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool('get_git_log', { count: 3, path: 'src' }, context);
+
+        expect(result.content).toContain('- `abc1234` 2024-05-01 Alice: Fix parser');
+        expect(context.git.getLog).toHaveBeenCalledWith({ count: 3, path: 'src' });
+      });
+
+      it('should return the diff and handle empty diffs', async () => {
+        const context = createMockContext();
+        const result = await executeInternalTool('get_git_diff', {}, context);
+        expect(result.content).toContain('```diff\n+new line\n```');
+
+        (context.git.getDiff as jest.Mock).mockResolvedValue({ stat: '', diff: '', truncated: false });
+        const empty = await executeInternalTool('get_git_diff', { staged: true }, context);
+        expect(empty.content).toBe('No staged changes.');
+      });
+
+      it('should explain when not inside a repository', async () => {
+        const context = createMockContext();
+        (context.git.getRoot as jest.Mock).mockResolvedValue(null);
+
+        for (const tool of ['get_git_status', 'get_git_log', 'get_git_diff']) {
+          const result = await executeInternalTool(tool, {}, context);
+          expect(result.success).toBe(true);
+          expect(result.content).toContain('Not inside a git repository');
+        }
+        expect(context.git.getStatus).not.toHaveBeenCalled();
+      });
+    });
+
     describe('Unknown tool', () => {
       it('should return error for unknown tool', async () => {
         const context = createMockContext();
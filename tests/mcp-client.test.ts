@@ -0,0 +1,132 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { McpManager } from '../src/mcp/client.js';
+import { ConfigManager } from '../src/config.js';
+
+function createEchoServer(): McpServer {
+  const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+  server.registerTool(
+    'echo',
+    { description: 'Echo a message', inputSchema: { message: z.string() } },
+    async ({ message }) => ({ content: [{ type: 'text', text: `echo: ${message}` }] })
+  );
+  return server;
+}
+
+describe('McpManager remote transports', () => {
+  const testDir = path.join(os.tmpdir(), 'hey-ai-test-mcp');
+  const configPath = path.join(testDir, 'config.json');
+  const sseTransports = new Map<string, SSEServerTransport>();
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+
+    httpServer = http.createServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      // Streamable HTTP endpoint (stateless)
+      if (url.pathname === '/mcp' && req.method === 'POST') {
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+        res.on('close', () => transport.close());
+        await createEchoServer().connect(transport);
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      // Legacy SSE endpoint
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        const transport = new SSEServerTransport('/messages', res);
+        sseTransports.set(transport.sessionId, transport);
+        res.on('close', () => sseTransports.delete(transport.sessionId));
+        await createEchoServer().connect(transport);
+        return;
+      }
+
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        const transport = sseTransports.get(url.searchParams.get('sessionId') || '');
+        if (transport) {
+          await transport.handlePostMessage(req, res);
+          return;
+        }
+      }
+
+      res.writeHead(404).end();
+    });
+
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const connectWith = async (serverConfig: Record<string, unknown>) => {
+    await fs.writeFile(configPath, JSON.stringify({
+      mcpServers: { remote: serverConfig }
+    }));
+    const manager = new McpManager(new ConfigManager(configPath));
+    await manager.connectAll();
+    return manager;
+  };
+
+  it('should connect to a streamable http server', async () => {
+    const manager = await connectWith({ type: 'http', url: `${baseUrl}/mcp` });
+    try {
+      expect(manager.getServerForTool('echo')).toBe('remote');
+      const result = await manager.callTool('echo', { message: 'hi' });
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('echo: hi');
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+
+  it('should connect to an sse server', async () => {
+    const manager = await connectWith({ type: 'sse', url: `${baseUrl}/sse` });
+    try {
+      expect(manager.hasTools()).toBe(true);
+      const result = await manager.callTool('echo', { message: 'sse' });
+      expect(result.content).toBe('echo: sse');
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+
+  it('should fall back from streamable http to sse', async () => {
+    const manager = await connectWith({ type: 'http', url: `${baseUrl}/sse` });
+    try {
+      expect(manager.getServerForTool('echo')).toBe('remote');
+      const result = await manager.callTool('echo', { message: 'fallback' });
+      expect(result.content).toBe('echo: fallback');
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+
+  it('should connect legacy __http__ entries', async () => {
+    const manager = await connectWith({ command: '__http__', args: [`${baseUrl}/mcp`] });
+    try {
+      expect(manager.getServerForTool('echo')).toBe('remote');
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+
+  it('should skip disabled servers', async () => {
+    const manager = await connectWith({ type: 'http', url: `${baseUrl}/mcp`, enabled: false });
+    expect(manager.hasTools()).toBe(false);
+    await manager.disconnectAll();
+  });
+});
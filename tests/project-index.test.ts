@@ -0,0 +1,135 @@
+import { jest } from '@jest/globals';
+
+// Mock embedding service
+const getEmbeddings = (jest.fn() as any).mockImplementation(async (texts: string[]) => texts.map(() => Array(1536).fill(0.1)));
+jest.unstable_mockModule('../src/llm/embedding.js', () => ({
+  getEmbedding: (jest.fn() as any).mockResolvedValue(Array(1536).fill(0.1)),
+  getEmbeddings,
+  getEmbeddingDimension: (jest.fn() as any).mockReturnValue(1536),
+}));
+
+const { ProjectIndex, chunkLines } = await import('../src/rag/project-index.js');
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+describe('chunkLines', () => {
+  it('should split text into overlapping chunks', () => {
+    const content = Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join('\n');
+    const chunks = chunkLines(content, 10, 2);
+
+    expect(chunks.map(c => [c.startLine, c.endLine])).toEqual([[1, 10], [9, 18], [17, 25]]);
+    expect(chunks[1].content.split('\n')[0]).toBe('line 9');
+  });
+
+  it('should skip blank chunks', () => {
+    expect(chunkLines('\n\n\n')).toEqual([]);
+  });
+});
+
+describe('ProjectIndex', () => {
+  let root: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'hey-ai-index-'));
+    dbPath = path.join(root, '..', `${path.basename(root)}.db`);
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src', 'http.ts'), 'export const MAX_RETRIES = 3;\n');
+    fs.writeFileSync(path.join(root, 'README.md'), '# Demo\n');
+    getEmbeddings.mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(dbPath, { force: true });
+  });
+
+  it('should index files and search them', async () => {
+    const index = new ProjectIndex(root, dbPath);
+    const stats = await index.update();
+
+    expect(stats).toMatchObject({ indexed: 2, unchanged: 0, removed: 0, chunks: 2 });
+    expect(index.getStatus()).toMatchObject({ files: 2, chunks: 2 });
+    expect(index.getStatus().indexedAt).not.toBeNull();
+
+    const hits = await index.search('retries', 5);
+    expect(hits.map(h => h.path).sort()).toEqual(['README.md', 'src/http.ts']);
+    expect(hits.find(h => h.path === 'src/http.ts')).toMatchObject({ startLine: 1, content: expect.stringContaining('MAX_RETRIES') });
+    index.close();
+  });
+
+  it('should only re-index changed files and drop deleted ones', async () => {
+    const index = new ProjectIndex(root, dbPath);
+    await index.update();
+    getEmbeddings.mockClear();
+
+    fs.writeFileSync(path.join(root, 'src', 'http.ts'), 'export const MAX_RETRIES = 5;\n');
+    fs.utimesSync(path.join(root, 'src', 'http.ts'), new Date(), new Date(Date.now() + 5000));
+    fs.rmSync(path.join(root, 'README.md'));
+
+    const stats = await index.update();
+    expect(stats).toMatchObject({ indexed: 1, unchanged: 0, removed: 1, chunks: 1 });
+    expect(getEmbeddings).toHaveBeenCalledTimes(1);
+    expect(index.getStatus()).toMatchObject({ files: 1, chunks: 1 });
+
+    const again = await index.update();
+    expect(again).toMatchObject({ indexed: 0, unchanged: 1, removed: 0 });
+    index.close();
+  });
+
+  it('should not re-embed touched files with the same content', async () => {
+    const index = new ProjectIndex(root, dbPath);
+    await index.update();
+    getEmbeddings.mockClear();
+
+    fs.utimesSync(path.join(root, 'README.md'), new Date(), new Date(Date.now() + 5000));
+    const stats = await index.update();
+
+    expect(stats).toMatchObject({ indexed: 0, unchanged: 2 });
+    expect(getEmbeddings).not.toHaveBeenCalled();
+    index.close();
+  });
+
+  it('should re-index everything on rebuild', async () => {
+    const index = new ProjectIndex(root, dbPath);
+    await index.update();
+
+    const stats = await index.update({ rebuild: true });
+    expect(stats).toMatchObject({ indexed: 2, unchanged: 0 });
+    expect(index.getStatus()).toMatchObject({ files: 2, chunks: 2 });
+    index.close();
+  });
+
+  it('should skip binary files', async () => {
+    fs.writeFileSync(path.join(root, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x01]));
+    const index = new ProjectIndex(root, dbPath);
+    const stats = await index.update();
+
+    expect(stats).toMatchObject({ indexed: 2, skipped: 1 });
+    index.close();
+  });
+
+  it('should return no hits before indexing', async () => {
+    const index = new ProjectIndex(root, dbPath);
+    expect(await index.search('anything')).toEqual([]);
+    expect(index.getStatus()).toMatchObject({ files: 0, chunks: 0, indexedAt: null });
+    index.close();
+  });
+
+  it('should redact secrets before embedding and storing chunks', async () => {
+    fs.writeFileSync(path.join(root, 'settings.py'), 'OPENAI_API_KEY=sk-proj-abcdefghijklmnopqrstuvwx\nPORT=3000\n');
+    const index = new ProjectIndex(root, dbPath);
+    await index.update();
+
+    const embedded = getEmbeddings.mock.calls.flatMap((call: any[]) => call[0] as string[]).join('\n');
+    expect(embedded).toContain('PORT=3000');
+    expect(embedded).not.toContain('sk-proj-abcdefghijklmnopqrstuvwx');
+
+    const hits = await index.search('api key', 5);
+    const settings = hits.find(h => h.path === 'settings.py');
+    expect(settings?.content).toContain('[REDACTED:');
+    expect(settings?.content).not.toContain('sk-proj-');
+    index.close();
+  });
+});
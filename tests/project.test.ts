@@ -0,0 +1,86 @@
+import {
+  ProjectInspector,
+  formatProjectSummary,
+  parseComposeServices,
+  parseJustRecipes,
+  parseMakeTargets,
+  readTomlTable,
+} from '../src/context/project';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ProjectInspector', () => {
+  const testDir = path.join(os.tmpdir(), 'hey-ai-test-project');
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'src', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'package.json'), JSON.stringify({
+      name: 'demo',
+      scripts: { build: 'tsc', test: 'jest' }
+    }));
+    await fs.writeFile(path.join(testDir, 'pnpm-lock.yaml'), '');
+    await fs.writeFile(path.join(testDir, 'Makefile'), [
+      '.PHONY: build test',
+      'CC := gcc',
+      'build test: deps',
+      '\t$(CC) main.c',
+      '%.o: %.c',
+      '\t$(CC) -c $<',
+      'deps:',
+    ].join('\n'));
+    await fs.writeFile(path.join(testDir, 'docker-compose.yml'), [
+      'version: "3"',
+      'services:',
+      '  web:',
+      '    image: nginx',
+      '    ports:',
+      '      - "80:80"',
+      '  db:',
+      '    image: postgres',
+      'volumes:',
+      '  data:',
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should detect ecosystems from the nearest directory with manifests', async () => {
+    const info = await new ProjectInspector(path.join(testDir, 'src', 'nested')).inspect();
+    expect(info?.root).toBe(testDir);
+    expect(info?.ecosystems.map(e => e.kind)).toEqual(['node', 'make', 'docker-compose']);
+
+    const node = info!.ecosystems[0];
+    expect(node).toMatchObject({ name: 'demo', tool: 'pnpm', runTask: 'pnpm run <task>' });
+    expect(node.tasks).toEqual([{ name: 'build', command: 'tsc' }, { name: 'test', command: 'jest' }]);
+
+    expect(formatProjectSummary(info!)).toBe(
+      'node (pnpm; scripts: build, test) · make (targets: build, test, deps) · docker-compose (services: web, db)'
+    );
+  });
+
+  it('should return null without manifests', async () => {
+    const emptyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hey-ai-test-empty-'));
+    try {
+      expect(await new ProjectInspector(emptyDir).inspect()).toBeNull();
+    } finally {
+      await fs.rm(emptyDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('manifest parsers', () => {
+  it('should read TOML tables', () => {
+    const toml = '[project]\nname = "tool"\n\n[project.scripts]\ntool = "tool.cli:main"\n[tool.poetry]\nname = "other"';
+    expect(readTomlTable(toml, 'project')).toEqual({ name: 'tool' });
+    expect(readTomlTable(toml, 'project.scripts')).toEqual({ tool: 'tool.cli:main' });
+  });
+
+  it('should parse make targets, just recipes and compose services', () => {
+    expect(parseMakeTargets('all: build\nbuild:\n\tgo build\nVERSION ?= 1\nx::\n')).toEqual(['all', 'build']);
+    expect(parseJustRecipes('set shell := ["bash", "-c"]\ndefault:\n  just --list\ntest target="all": build\n_private:\n')).toEqual(['default', 'test']);
+    expect(parseComposeServices('services:\n  api:\n    build: .\n')).toEqual(['api']);
+  });
+});
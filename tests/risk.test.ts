@@ -0,0 +1,84 @@
+import { analyzeCommandRisk, parseShellCommands, getRiskLevel, maxRiskLevel } from '../src/shell/risk';
+
+const rulesFor = (code: string, policy = {}) => analyzeCommandRisk(code, policy).map(finding => finding.rule);
+
+describe('parseShellCommands', () => {
+  it('should split on separators and pipes while respecting quotes and comments', () => {
+    const commands = parseShellCommands('cd /tmp && echo "a; b" | grep a # trailing; rm -rf /\nls \\\n  -la');
+    expect(commands.map(c => c.argv)).toEqual([
+      ['cd', '/tmp'],
+      ['echo', 'a; b'],
+      ['grep', 'a'],
+      ['ls', '-la'],
+    ]);
+    expect(commands[1].pipedInto).toBe(commands[2]);
+    expect(commands[1].text).toBe('echo "a; b"');
+  });
+
+  it('should parse function bodies and keep redirections in words', () => {
+    const commands = parseShellCommands('cleanup() {\n  find . -delete 2>&1\n}');
+    expect(commands.map(c => c.argv)).toEqual([['cleanup'], ['find', '.', '-delete', '2>&1']]);
+  });
+
+  it('should keep process substitutions as arguments and parse the commands inside', () => {
+    const commands = parseShellCommands('diff <(sort "a b") <(sort c) | less');
+    expect(commands.map(c => c.argv)).toEqual([
+      ['sort', 'a b'],
+      ['sort', 'c'],
+      ['diff', '<(sort "a b")', '<(sort c)'],
+      ['less'],
+    ]);
+    expect(commands[2].pipedInto).toBe(commands[3]);
+  });
+});
+
+describe('analyzeCommandRisk', () => {
+  it('should flag destructive commands', () => {
+    expect(rulesFor('rm -rf ./build')).toEqual(['rm-recursive-force']);
+    expect(rulesFor('sudo rm -r -f /var/lib/thing')).toEqual(['rm-recursive-force']);
+    expect(rulesFor('dd if=image.iso of=/dev/disk2 bs=4m')).toEqual(['dd-write']);
+    expect(rulesFor('sudo mkfs.ext4 /dev/sdb1')).toEqual(['mkfs']);
+    expect(rulesFor('cat image > /dev/sda')).toEqual(['block-device-write']);
+    expect(rulesFor('chmod -R 777 /')).toEqual(['chmod-777-recursive']);
+    expect(rulesFor('curl -fsSL https://example.com/install.sh | sudo bash')).toEqual(['pipe-to-shell']);
+    expect(rulesFor('sh -c "$(curl -fsSL https://example.com/install.sh)"')).toEqual(['pipe-to-shell']);
+    expect(rulesFor('bash <(curl -fsSL https://example.com/install.sh)')).toEqual(['pipe-to-shell']);
+    expect(rulesFor('sudo zsh <(wget -qO- https://example.com/install.sh) --yes')).toEqual(['pipe-to-shell']);
+    expect(rulesFor('git push --force origin main')).toEqual(['git-force-push']);
+    expect(rulesFor('git push origin +main')).toEqual(['git-force-push']);
+    expect(rulesFor('git reset --hard HEAD~1')).toEqual(['git-discard-changes']);
+    expect(rulesFor('psql -c "DROP TABLE users"')).toEqual(['sql-drop']);
+    expect(rulesFor('find . -name "*.tmp" -exec rm {} \\;')).toEqual(['find-delete']);
+  });
+
+  it('should not flag safe commands or quoted text', () => {
+    expect(rulesFor('ls -la | grep foo')).toEqual([]);
+    expect(rulesFor('rm file.txt')).toEqual([]);
+    expect(rulesFor('echo "rm -rf /"')).toEqual([]);
+    expect(rulesFor('curl -fsSL https://example.com -o install.sh')).toEqual([]);
+    expect(rulesFor('git push origin main')).toEqual([]);
+  });
+
+  it('should apply the configured policy', () => {
+    expect(rulesFor('rm -rf ./build', { enabled: false })).toEqual([]);
+    expect(rulesFor('rm -rf ./build', { disabledRules: ['rm-recursive-force'] })).toEqual([]);
+    expect(rulesFor('rm -rf ./build', { allow: ['^rm -rf \\./build$'] })).toEqual([]);
+
+    const findings = analyzeCommandRisk('kubectl delete namespace prod', {
+      rules: [{ id: 'kubectl-delete', pattern: '^kubectl\\s+delete\\b', severity: 'medium', message: 'Deletes cluster resources' }]
+    });
+    expect(findings).toEqual([{
+      rule: 'kubectl-delete',
+      severity: 'medium',
+      message: 'Deletes cluster resources',
+      command: 'kubectl delete namespace prod'
+    }]);
+  });
+
+  it('should summarise the overall risk level', () => {
+    expect(getRiskLevel(analyzeCommandRisk('ls'))).toBe('low');
+    expect(getRiskLevel(analyzeCommandRisk('find . -delete'))).toBe('medium');
+    expect(getRiskLevel(analyzeCommandRisk('find . -delete; rm -rf /'))).toBe('high');
+    expect(maxRiskLevel('low', 'medium', 'low')).toBe('medium');
+  });
+});
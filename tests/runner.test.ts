@@ -0,0 +1,21 @@
+import { runInShell } from '../src/shell/runner';
+
+describe('runInShell', () => {
+  it('should report exit code and capture stderr', async () => {
+    const result = await runInShell('echo "boom" >&2; exit 3', '/bin/sh');
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr).toBe('boom');
+  });
+
+  it('should report success', async () => {
+    const result = await runInShell('true', '/bin/sh');
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toBe('');
+  });
+
+  it('should report a missing shell as a failure', async () => {
+    const result = await runInShell('true', '/nonexistent/shell');
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).not.toBe('');
+  });
+});
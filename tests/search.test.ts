@@ -0,0 +1,64 @@
+import { ProjectSearch } from '../src/context/search';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const hasRipgrep = spawnSync('rg', ['--version']).status === 0;
+
+describe('ProjectSearch', () => {
+  const testDir = path.join(os.tmpdir(), 'hey-ai-test-search');
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'node_modules', 'dep'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'generated'), { recursive: true });
+    await fs.writeFile(path.join(testDir, '.gitignore'), 'generated/\n');
+    await fs.writeFile(path.join(testDir, 'src', 'config.ts'), 'export function loadConfig() {}\n// TODO: validate\n');
+    await fs.writeFile(path.join(testDir, 'src', 'index.ts'), 'import { loadConfig } from "./config";\nloadConfig();\n');
+    await fs.writeFile(path.join(testDir, 'README.md'), 'Call loadConfig first.\n');
+    await fs.writeFile(path.join(testDir, 'node_modules', 'dep', 'index.js'), 'loadConfig();\n');
+    await fs.writeFile(path.join(testDir, 'generated', 'out.ts'), 'loadConfig();\n');
+    await fs.writeFile(path.join(testDir, 'image.bin'), Buffer.from([0x6c, 0x6f, 0x61, 0x64, 0x00, 0x0a, 0x6c, 0x6f, 0x61, 0x64, 0x43, 0x6f, 0x6e, 0x66, 0x69, 0x67]));
+  });
+
+  const outsideFile = path.join(os.tmpdir(), 'hey-ai-test-search-outside.txt');
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.rm(outsideFile, { force: true });
+  });
+
+  const engines: [string, boolean][] = [['js', false], ['ripgrep', true]];
+
+  describe.each(engines)('with the %s engine', (_name, ripgrep) => {
+    const test = !ripgrep || hasRipgrep ? it : it.skip;
+    const search = () => new ProjectSearch(testDir, { ripgrep });
+
+    test('should find matches with file:line locations, respecting ignores', async () => {
+      const result = await search().search('loadConfig\\(');
+      const locations = result.matches.map(m => `${m.file}:${m.line}`).sort();
+      expect(locations).toEqual(['src/config.ts:1', 'src/index.ts:2']);
+      expect(result.matches.find(m => m.file === 'src/index.ts')?.text).toBe('loadConfig();');
+      expect(result.truncated).toBe(false);
+    });
+
+    test('should filter by glob and ignore case', async () => {
+      const result = await search().search('call loadconfig', { glob: '*.md', ignoreCase: true });
+      expect(result.matches).toEqual([{ file: 'README.md', line: 1, text: 'Call loadConfig first.' }]);
+    });
+
+    test('should not search files outside the project', async () => {
+      await fs.writeFile(outsideFile, 'loadConfig outside\n');
+
+      await expect(search().search('loadConfig', { glob: '../hey-ai-test-search-outside.txt' })).rejects.toThrow('Glob must be relative');
+      await expect(search().search('loadConfig', { glob: outsideFile })).rejects.toThrow('Glob must be relative');
+    });
+
+    test('should stop at the result limit', async () => {
+      const result = await search().search('loadConfig', { maxResults: 2 });
+      expect(result.matches).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+    });
+  });
+});
@@ -3,10 +3,12 @@ import { jest } from '@jest/globals';
 // Mock embedding service
 jest.unstable_mockModule('../src/llm/embedding.js', () => ({
   getEmbedding: (jest.fn() as any).mockResolvedValue(Array(1536).fill(0.1)),
+  getEmbeddings: (jest.fn() as any).mockImplementation(async (texts: string[]) => texts.map(() => Array(1536).fill(0.1))),
   getEmbeddingDimension: (jest.fn() as any).mockReturnValue(1536),
 }));
 
 const { SessionHistory } = await import('../src/context/session.js');
+const { updateShellHistoryIndex } = await import('../src/context/history-index.js');
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
@@ -43,5 +45,139 @@ describe('SessionHistory', () => {
     expect(results).toHaveLength(1);
     expect(results[0].response).toBe('use fd instead');
   });
-});
 
+  it('should record exit codes for entries', async () => {
+    const session = new SessionHistory(testDbPath);
+    const id = await session.addEntry('list files', 'ls -la', '/test');
+    session.setExitCode(id, 2);
+
+    const recent = session.getRecentEntries(1);
+    expect(recent[0].exit_code).toBe(2);
+  });
+
+  it('should record the syntax check status for entries', async () => {
+    const session = new SessionHistory(testDbPath);
+    const id = await session.addEntry('list files', 'ls -la', '/test');
+    expect(session.getEntry(id)?.validation).toBeNull();
+
+    session.setValidation(id, 'errors');
+    expect(session.getEntry(id)?.validation).toBe('errors');
+  });
+
+  it('should persist and replay conversation messages', async () => {
+    const session = new SessionHistory(testDbPath);
+    session.saveConversationTurn('abc-123', '/project', [
+      { role: 'user', content: 'find big files' },
+      { role: 'assistant', content: [{ type: 'text', text: 'use du' }] }
+    ]);
+    session.saveConversationTurn('abc-123', '/project', [
+      { role: 'user', content: 'sort them' },
+      { role: 'assistant', content: 'add sort -h' }
+    ]);
+
+    const conversation = session.getConversation('abc');
+    expect(conversation?.title).toBe('find big files');
+    expect(session.getLatestConversation('/project')?.id).toBe('abc-123');
+    expect(session.getLatestConversation('/elsewhere')).toBeNull();
+
+    const messages = session.getConversationMessages('abc-123');
+    expect(messages).toHaveLength(4);
+    expect(messages[1].content).toEqual([{ type: 'text', text: 'use du' }]);
+    expect(messages[2]).toEqual({ role: 'user', content: 'sort them' });
+  });
+
+  it('should filter entries by cwd and model', async () => {
+    const session = new SessionHistory(testDbPath);
+    await session.addEntry('one', 'a', '/project', { model: 'claude-3-5-sonnet-20241022' });
+    await session.addEntry('two', 'b', '/other', { model: 'gpt-4o-mini' });
+
+    expect(session.getRecentEntries(10, { cwd: '/project' }).map(e => e.prompt)).toEqual(['one']);
+    expect(session.getRecentEntries(10, { model: 'gpt' }).map(e => e.prompt)).toEqual(['two']);
+    expect(session.getRecentEntries(10, { since: Date.now() + 60000 })).toHaveLength(0);
+    expect(session.searchFTS('two', 5, { cwd: '/project' })).toHaveLength(0);
+  });
+
+  it('should delete entries with their embeddings and conversation messages', async () => {
+    const session = new SessionHistory(testDbPath);
+    const keep = await session.addEntry('keep me', 'ok', '/project', { conversationId: 'conv' });
+    const drop = await session.addEntry('drop me', 'ok', '/project', { conversationId: 'conv' });
+    session.saveConversationTurn('conv', '/project', [{ role: 'user', content: 'keep me' }], keep);
+    session.saveConversationTurn('conv', '/project', [{ role: 'user', content: 'drop me' }], drop);
+
+    expect(session.deleteEntry(drop)).toBe(true);
+    expect(session.deleteEntry(drop)).toBe(false);
+    expect(session.getEntry(drop)).toBeNull();
+    expect(session.searchFTS('drop')).toHaveLength(0);
+    expect(session.getConversationMessages('conv')).toEqual([{ role: 'user', content: 'keep me' }]);
+
+    expect(session.clearEntries()).toBe(1);
+    expect(session.getRecentEntries()).toHaveLength(0);
+    expect(session.getConversation('conv')).toBeNull();
+  });
+
+  it('should import entries into FTS and vector search, skipping duplicates', async () => {
+    const source = new SessionHistory(testDbPath);
+    await source.addEntry('compress video with ffmpeg', 'ffmpeg -i in.mp4 out.mp4', '/media', { model: 'gpt-4o-mini' });
+    const exported = source.getAllEntries().map(({ id: _id, ...entry }) => entry);
+    source.clearEntries();
+
+    const first = await source.importEntries([...exported, ...exported]);
+    expect(first).toEqual({ imported: 1, skipped: 1 });
+    expect(await source.importEntries(exported)).toEqual({ imported: 0, skipped: 1 });
+
+    const [entry] = source.getAllEntries();
+    expect(entry).toMatchObject(exported[0]);
+    expect(source.searchFTS('ffmpeg')).toHaveLength(1);
+    expect(await source.searchSemantic('video')).toHaveLength(1);
+  });
+
+  it('should index shell history incrementally and recall commands', async () => {
+    const session = new SessionHistory(testDbPath);
+    const first = await session.indexShellHistory('zsh', [
+      { command: 'ffmpeg -i talk.mp4 -vf fps=10 talk.gif', timestamp: 100 },
+      { command: 'git status', timestamp: 200 },
+      { command: 'git status', timestamp: 300 },
+      { command: 'ls -la', timestamp: 0 },
+    ]);
+    expect(first).toEqual({ added: 3, embedded: 3 });
+    expect(session.getShellHistoryIndexedAt('zsh')).toBe(300);
+    expect(session.getShellHistoryIndexedAt('bash')).toBe(0);
+
+    const second = await session.indexShellHistory('zsh', [
+      { command: 'ls -la', timestamp: 0 },
+      { command: 'git status', timestamp: 400 },
+    ]);
+    expect(second).toEqual({ added: 0, embedded: 0 });
+
+    const [match] = await session.searchShellHistory('git status of the repo', 1, 'zsh');
+    expect(match).toMatchObject({ command: 'git status', timestamp: 400, count: 3 });
+
+    const results = await session.searchShellHistory('convert mp4 to gif');
+    expect(results.map(r => r.command)).toContain('ffmpeg -i talk.mp4 -vf fps=10 talk.gif');
+    expect(await session.searchShellHistory('git', 5, 'fish')).toEqual([]);
+  });
+
+  it('should pick up commands written in the same second as the last index run', async () => {
+    const session = new SessionHistory(testDbPath);
+    const entries = [
+      { command: 'make build', timestamp: 500 },
+      { command: 'make test', timestamp: 600 },
+    ];
+    const history = {
+      shell: 'zsh' as const,
+      getEntries: async () => entries,
+      getLastEntries: async () => entries,
+    };
+
+    expect(await updateShellHistoryIndex(session, history)).toMatchObject({ added: 2 });
+
+    // Written later, but within the same second as the last indexed command
+    entries.push({ command: 'make deploy', timestamp: 600 });
+    expect(await updateShellHistoryIndex(session, history)).toMatchObject({ added: 1 });
+    expect(await updateShellHistoryIndex(session, history)).toMatchObject({ added: 0 });
+
+    const matches = await session.searchShellHistory('make', 5, 'zsh');
+    expect(matches.find(m => m.command === 'make test')?.count).toBe(1);
+    expect(matches.map(m => m.command)).toContain('make deploy');
+  });
+});
@@ -0,0 +1,71 @@
+import { checkShellSyntax, parseShellErrors, parseShellcheckOutput, resolveDialect } from '../src/shell/syntax.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+describe('parseShellErrors', () => {
+  it('should parse bash errors and drop the repeated source line', () => {
+    const stderr = "bash: line 5: syntax error near unexpected token `}'\nbash: line 5: `}'\n";
+    expect(parseShellErrors(stderr)).toEqual([
+      { source: 'shell', severity: 'error', line: 5, message: "syntax error near unexpected token `}'" }
+    ]);
+  });
+
+  it('should parse zsh errors', () => {
+    expect(parseShellErrors("zsh:3: parse error near `}'\n")).toEqual([
+      { source: 'shell', severity: 'error', line: 3, message: "parse error near `}'" }
+    ]);
+  });
+});
+
+describe('parseShellcheckOutput', () => {
+  it('should map shellcheck comments to diagnostics', () => {
+    const stdout = JSON.stringify({
+      comments: [
+        { file: '-', line: 2, column: 6, level: 'warning', code: 2086, message: 'Double quote to prevent globbing and word splitting.' },
+        { file: '-', line: 4, column: 1, level: 'error', code: 1089, message: 'Parsing stopped here.' },
+      ]
+    });
+
+    expect(parseShellcheckOutput(stdout)).toEqual([
+      { source: 'shellcheck', severity: 'warning', line: 2, message: 'Double quote to prevent globbing and word splitting.', code: 'SC2086' },
+      { source: 'shellcheck', severity: 'error', line: 4, message: 'Parsing stopped here.', code: 'SC1089' },
+    ]);
+    expect(parseShellcheckOutput('not json')).toEqual([]);
+  });
+});
+
+describe('checkShellSyntax', () => {
+  const originalPath = process.env.PATH;
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+  });
+
+  it('should use the fence language before the user shell', () => {
+    expect(resolveDialect('zsh')).toBe('zsh');
+    expect(resolveDialect('sh')).toBe('sh');
+  });
+
+  it('should pass valid code and report syntax errors with line numbers', async () => {
+    const valid = await checkShellSyntax('list() {\n  ls -la\n}\nlist', 'sh');
+    expect(valid.checkedWith).toContain('sh -n');
+    expect(valid.diagnostics.filter(diagnostic => diagnostic.severity === 'error')).toEqual([]);
+
+    const broken = await checkShellSyntax('if true; then\n  echo yes\n', 'sh');
+    expect(broken.status).toBe('errors');
+    expect(broken.diagnostics[0]).toEqual(expect.objectContaining({ source: 'shell', severity: 'error' }));
+  });
+
+  it('should skip checks when no checker is installed', async () => {
+    const emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hey-ai-syntax-'));
+    process.env.PATH = emptyDir;
+
+    try {
+      const result = await checkShellSyntax('if true; then', 'bash');
+      expect(result).toEqual({ dialect: 'bash', status: 'skipped', diagnostics: [], checkedWith: [] });
+    } finally {
+      fs.rmSync(emptyDir, { recursive: true, force: true });
+    }
+  });
+});